@@ -1,7 +1,7 @@
 import * as PIXI from "pixi.js";
 import { OutlineFilter } from '@pixi/filter-outline';
 import { Viewport } from "pixi-viewport";
-import type { Circle, Polygon, Rectangle, ShapeContentData, ShapeTransformData } from "../../../shared/src/SimuloPhysicsServerRapier";
+import type { Circle, Polygon, Rectangle, Compound, ShapeContentData, ShapeTransformData, SimuloJointInfo, SimuloThrusterInfo, SimuloParticleData } from "../../../shared/src/SimuloPhysicsServer";
 import type WorldUpdate from "../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/WorldUpdate";
 
 PIXI.curves.adaptive = false;
@@ -89,6 +89,17 @@ export default class SimuloViewerPIXI {
         });
 
         this.scene.addChild(this.viewport as any);
+        // shapes are drawn in order of Z Depth
+        this.viewport.sortableChildren = true;
+
+        let particleGFX = new PIXI.Graphics();
+        particleGFX.beginFill(0xffffff).drawCircle(0, 0, this.particleTextureRadius).endFill();
+        this.particleTexture = this.renderer.generateTexture(particleGFX);
+        particleGFX.destroy();
+        this.particleContainer = new PIXI.ParticleContainer(10000, { position: true, scale: true, tint: true });
+        // above shapes, below overlays
+        this.particleContainer.zIndex = Number.MAX_SAFE_INTEGER;
+        this.viewport.addChild(this.particleContainer);
         this.viewport.drag({
             mouseButtons: "middle-right", // left click is used for tools
         }).pinch().wheel().decelerate();
@@ -103,7 +114,15 @@ export default class SimuloViewerPIXI {
             this.updateMouse("pointerup", { x: e.globalX, y: e.globalY }, e);
         });
 
+        // the viewport zooms on wheel too, this is so tools can use it
+        this.canvas.addEventListener('wheel', (e: WheelEvent) => {
+            this.updateMouse("wheel", { x: e.offsetX, y: e.offsetY }, e);
+        });
+
         this.canvas.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (this.listeners['keydown']) {
+                this.listeners['keydown'].forEach((callback) => callback(e));
+            }
             if (e.key === 'h') {
                 this.panInputs.left = true;
             }
@@ -119,6 +138,9 @@ export default class SimuloViewerPIXI {
         });
 
         this.canvas.addEventListener('keyup', (e: KeyboardEvent) => {
+            if (this.listeners['keyup']) {
+                this.listeners['keyup'].forEach((callback) => callback(e));
+            }
             if (e.key === 'h') {
                 this.panInputs.left = false;
             }
@@ -183,13 +205,25 @@ export default class SimuloViewerPIXI {
     /** Graphics that are cleared and redrawn each frame, as they are expected to change every frame. */
     tempGFXs: PIXI.Graphics[] = []
 
+    /** Add graphics that only last until the next update, drawn on top of every shape */
+    addTempGFX(gfx: PIXI.Graphics) {
+        gfx.zIndex = Infinity;
+        this.tempGFXs.push(gfx);
+        this.viewport.addChild(gfx);
+    }
+
     update(worldUpdate: WorldUpdate) {
+        // removals first, so an ID that was removed and re-added in the same step ends up with the new content
+        worldUpdate.delta.removed.forEach((id) => {
+            this.removeShape(id);
+        });
         for (let key in worldUpdate.delta.shapeContent) {
             let content = worldUpdate.delta.shapeContent[key];
             this.addShape(content);
         }
         if (Object.keys(worldUpdate.delta.shapeContent).length > 0) console.log('registered ' + Object.keys(worldUpdate.delta.shapeContent).length + ' shapes')
         this.updatePositions(worldUpdate.delta.shapeTransforms);
+        this.updateParticles(worldUpdate.particles);
         // draw a line for each spring, will soon support images
         this.tempGFXs.forEach((gfx) => {
             this.viewport.removeChild(gfx)
@@ -200,8 +234,14 @@ export default class SimuloViewerPIXI {
             gfx.lineStyle(3 / this.viewport.scale.y, '#ffffff')
                 .moveTo(spring.pointA.x, -spring.pointA.y)
                 .lineTo(spring.pointB.x, -spring.pointB.y);
-            this.tempGFXs.push(gfx)
-            this.viewport.addChild(gfx);
+            this.addTempGFX(gfx);
+        });
+        worldUpdate.joints.forEach((joint) => {
+            let gfx = this.renderJoint(joint);
+            this.addTempGFX(gfx);
+        });
+        worldUpdate.thrusters.forEach((thruster) => {
+            this.addTempGFX(this.renderThruster(thruster));
         });
         worldUpdate.overlays.shapes.forEach((shape) => {
             let content = shape.content;
@@ -210,8 +250,7 @@ export default class SimuloViewerPIXI {
             gfx.position.x = transform.x;
             gfx.position.y = -transform.y;
             gfx.rotation = -transform.angle;
-            this.tempGFXs.push(gfx);
-            this.viewport.addChild(gfx);
+            this.addTempGFX(gfx);
         });
         worldUpdate.overlays.texts.forEach((text) => {
             // coming soon lol
@@ -245,9 +284,112 @@ export default class SimuloViewerPIXI {
     reset() {
         this.coll2gfx.forEach((gfx) => {
             this.viewport.removeChild(gfx);
-            gfx.destroy();
+            gfx.destroy({ children: true });
         });
         this.coll2gfx = new Map();
+        this.updateParticles({ positions: [], colors: [], radii: [] });
+    }
+
+    /** Particles are sprites of one circle texture in a `ParticleContainer`, so thousands of them are drawn in a few batches */
+    particleContainer: PIXI.ParticleContainer;
+    particleTexture: PIXI.Texture;
+    private particleTextureRadius = 16;
+    private particleSprites: PIXI.Sprite[] = [];
+    /** Last colors and radii from the server, which are only sent when particles are added or removed */
+    private particleColors: number[] = [];
+    private particleRadii: number[] = [];
+
+    updateParticles(particles: SimuloParticleData) {
+        if (particles.colors) this.particleColors = particles.colors;
+        if (particles.radii) this.particleRadii = particles.radii;
+        let count = particles.positions.length / 2;
+        while (this.particleSprites.length < count) {
+            let sprite = new PIXI.Sprite(this.particleTexture);
+            sprite.anchor.set(0.5);
+            this.particleSprites.push(sprite);
+            this.particleContainer.addChild(sprite);
+        }
+        while (this.particleSprites.length > count) {
+            let sprite = this.particleSprites.pop()!;
+            this.particleContainer.removeChild(sprite);
+            sprite.destroy();
+        }
+        this.particleSprites.forEach((sprite, i) => {
+            sprite.position.set(particles.positions[i * 2], -particles.positions[i * 2 + 1]);
+            sprite.tint = this.particleColors[i] ?? 0xffffff;
+            sprite.scale.set((this.particleRadii[i] ?? 0.1) / this.particleTextureRadius);
+        });
+    }
+
+    /** Axle markers for hinges, bolt markers for bolts, and a line along the axis for sliders */
+    renderJoint(joint: SimuloJointInfo) {
+        let gfx = new PIXI.Graphics();
+        let size = 8 / this.viewport.scale.y;
+        let lineWidth = 2 / this.viewport.scale.y;
+        switch (joint.type) {
+            case "hinge":
+                gfx.lineStyle(lineWidth, 0x000000, 0.8);
+                gfx.beginFill(0xffffff, 0.8);
+                gfx.drawCircle(joint.pointA.x, -joint.pointA.y, size);
+                gfx.endFill();
+                gfx.beginFill(0x000000, 0.8);
+                gfx.drawCircle(joint.pointA.x, -joint.pointA.y, size / 3);
+                gfx.endFill();
+                break;
+            case "bolt":
+                gfx.lineStyle(lineWidth, 0x000000, 0.8);
+                gfx.beginFill(0xcccccc, 0.8);
+                gfx.drawCircle(joint.pointA.x, -joint.pointA.y, size);
+                gfx.endFill();
+                // cross like a screw head
+                gfx.moveTo(joint.pointA.x - size / 2, -joint.pointA.y - size / 2)
+                    .lineTo(joint.pointA.x + size / 2, -joint.pointA.y + size / 2)
+                    .moveTo(joint.pointA.x + size / 2, -joint.pointA.y - size / 2)
+                    .lineTo(joint.pointA.x - size / 2, -joint.pointA.y + size / 2);
+                break;
+            case "slider":
+                gfx.lineStyle(lineWidth, 0xffffff, 0.8)
+                    .moveTo(joint.pointA.x, -joint.pointA.y)
+                    .lineTo(joint.pointB.x, -joint.pointB.y);
+                gfx.beginFill(0xffffff, 0.8);
+                gfx.drawCircle(joint.pointB.x, -joint.pointB.y, size / 2);
+                gfx.endFill();
+                break;
+        }
+        return gfx;
+    }
+
+    /** Flame pointing away from the direction of the force while enabled, and just the nozzle while disabled */
+    renderThruster(thruster: SimuloThrusterInfo) {
+        let gfx = new PIXI.Graphics();
+        let size = 10 / this.viewport.scale.y;
+        // y is flipped on screen
+        let point = { x: thruster.point.x, y: -thruster.point.y };
+        let direction = { x: thruster.direction.x, y: -thruster.direction.y };
+        let side = { x: -direction.y, y: direction.x };
+        if (thruster.enabled) {
+            let length = size * (2.5 + Math.random() * 0.5);
+            gfx.beginFill(0xffa020, 0.9);
+            gfx.drawPolygon([
+                point.x + side.x * size / 2, point.y + side.y * size / 2,
+                point.x - direction.x * length, point.y - direction.y * length,
+                point.x - side.x * size / 2, point.y - side.y * size / 2,
+            ]);
+            gfx.endFill();
+        }
+        gfx.lineStyle(2 / this.viewport.scale.y, 0x000000, 0.8);
+        gfx.beginFill(0x808080, 0.9);
+        gfx.drawCircle(point.x, point.y, size / 2);
+        gfx.endFill();
+        return gfx;
+    }
+
+    removeShape(id: string) {
+        let gfx = this.coll2gfx.get(id);
+        if (!gfx) return;
+        this.viewport.removeChild(gfx);
+        gfx.destroy({ children: true });
+        this.coll2gfx.delete(id);
     }
 
     renderShape(content: ShapeContentData) {
@@ -319,6 +461,17 @@ export default class SimuloViewerPIXI {
                 gfx.lineTo(polygon.points[0][0], -polygon.points[0][1]);
                 gfx.endFill();
                 break;
+            case "compound":
+                // each child is drawn as its own shape, moved to where it is on the compound
+                let compound = content as Compound;
+                compound.children.forEach((child) => {
+                    let childGFX = this.renderShape({ ...child, id: content.id });
+                    childGFX.position.x = child.x;
+                    childGFX.position.y = -child.y;
+                    childGFX.rotation = -child.angle;
+                    gfx.addChild(childGFX);
+                });
+                break;
             default:
                 console.error("Unknown shape type: " + content.type);
                 break;
@@ -337,6 +490,7 @@ export default class SimuloViewerPIXI {
         }
 
         let gfx = this.renderShape(content);
+        gfx.zIndex = content.zDepth;
 
         this.coll2gfx.set(content.id, gfx);
         this.viewport.addChild(gfx);
@@ -1,6 +1,7 @@
 import SimuloPhysicsPlugin from "../../shared/src/plugins/SimuloPhysicsPlugin";
 import SimuloPhysicsSandboxServerPlugin from "../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin";
 import SimuloPhysicsSandboxClientPlugin from "./plugins/client/SimuloPhysicsSandboxClientPlugin";
+import SimuloAudioClientPlugin from "./plugins/client/SimuloAudioClientPlugin";
 import SimuloServerController from "../../shared/src/SimuloServerController";
 import SimuloClientController from "./SimuloClientController";
 
@@ -13,14 +14,11 @@ let physicsSandboxServerPlugin = new SimuloPhysicsSandboxServerPlugin(server, ph
 server.addPlugin(physicsPlugin);
 server.addPlugin(physicsSandboxServerPlugin);
 
-server.handleIncomingEvent("connect", {
-    id: "local",
-}, "local");
-
 let client = new SimuloClientController();
 let physicsSandboxClientPlugin = new SimuloPhysicsSandboxClientPlugin(client);
 
 client.addPlugin(physicsSandboxClientPlugin);
+client.addPlugin(new SimuloAudioClientPlugin(client));
 
 // loopback, so simple that we don't need a plugin for this
 server.on('data', (data: { event: string, data: any }) => {
@@ -34,10 +32,15 @@ client.on('data', (data: { event: string, data: any }) => {
     server.handleIncomingEvent(data.event, data.data, "local");
 });
 
-client.handleIncomingEvent("tools", {
-    tools: physicsSandboxServerPlugin.getTools(),
-    tool: 'drag'
-});
+// add ?record to the URL to record the session, then get it with `server.stopRecording()` and replay it with `bun run replay`
+if (new URLSearchParams(location.search).has('record')) {
+    server.startRecording();
+}
+
+// the server sends us the world and tools when we connect
+server.handleIncomingEvent("connect", {
+    id: "local",
+}, "local");
 
 console.log('Starting...')
 server.startLoop();
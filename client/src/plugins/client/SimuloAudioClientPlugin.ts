@@ -0,0 +1,90 @@
+import type SimuloClientPlugin from "../../SimuloClientPlugin";
+import type SimuloClientController from "../../SimuloClientController";
+
+/** Plays sounds the server asks for, like collision sounds. Uses Web Audio so many sounds can overlap. */
+
+export default class SimuloAudioClientPlugin implements SimuloClientPlugin {
+    name = "Simulo Audio Client Plugin";
+    description = "Plays collision sounds and other sounds sent by the server";
+    version = "0.1.0";
+    author = "Carroted";
+    namespace = "carroted";
+    id = "simulo-audio-client-plugin";
+    dependencies = [];
+    controller: SimuloClientController;
+
+    context: AudioContext;
+    /** Sound files are relative to this */
+    soundsPath = './assets/sounds/';
+    /** Maximum number of sounds playing at once. New sounds are skipped while this many are playing. */
+    maxVoices = 8;
+    /** Overall volume, 0-1 */
+    volume = 0.5;
+    private activeVoices = 0;
+
+    cachedBuffers: { [url: string]: Promise<AudioBuffer | null> } = {};
+
+    constructor(controller: SimuloClientController) {
+        this.controller = controller;
+        this.context = new AudioContext();
+
+        // browsers don't let us play audio until the user interacts with the page
+        let resume = () => {
+            if (this.context.state === 'suspended') {
+                this.context.resume();
+            }
+        };
+        window.addEventListener('pointerdown', resume);
+        window.addEventListener('keydown', resume);
+    }
+
+    loadSound(url: string): Promise<AudioBuffer | null> {
+        if (!this.cachedBuffers[url]) {
+            this.cachedBuffers[url] = fetch(url)
+                .then((response) => response.arrayBuffer())
+                .then((data) => this.context.decodeAudioData(data))
+                .catch((e) => {
+                    console.error('Failed to load sound ' + url, e);
+                    return null;
+                });
+        }
+        return this.cachedBuffers[url];
+    }
+
+    /** Play a sound relative to `soundsPath`, with 0-1 volume */
+    async playSound(sound: string, volume: number) {
+        if (this.context.state !== 'running') return;
+        if (this.activeVoices >= this.maxVoices) return;
+        this.activeVoices++;
+
+        let buffer = await this.loadSound(this.soundsPath + sound);
+        if (!buffer) {
+            this.activeVoices--;
+            return;
+        }
+
+        let source = this.context.createBufferSource();
+        source.buffer = buffer;
+        let gain = this.context.createGain();
+        gain.gain.value = Math.max(0, Math.min(1, volume)) * this.volume;
+        source.connect(gain);
+        gain.connect(this.context.destination);
+        source.onended = () => {
+            this.activeVoices--;
+            gain.disconnect();
+        };
+        source.start();
+    }
+
+    destroy(): void {
+        this.context.close();
+    }
+
+    handleIncomingEvent(event: string, data: any): void {
+        if (event === 'collision_sound') {
+            let collisionSound = data as { sound: string, volume: number, x: number, y: number };
+            this.playSound(collisionSound.sound, collisionSound.volume);
+        }
+    }
+    handleOutgoingEvent(event: string, data: any): void { } // nothing here
+}
@@ -3,6 +3,12 @@ import type SimuloClientController from "../../SimuloClientController";
 import type PhysicsSandboxPlayer from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/PhysicsSandboxPlayer";
 import SimuloViewerPIXI from "../../SimuloViewerPIXI";
 import type WorldUpdate from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/WorldUpdate";
+import type WorldSnapshot from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/WorldSnapshot";
+import type TimeState from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/TimeState";
+import type GravityState from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/GravityState";
+import type TimelineState from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/TimelineState";
+import type { SimuloGravityFieldDesc } from "../../../../shared/src/SimuloPhysicsServer";
+import type { PhysicsSandboxToolInfo } from "../../../../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/PhysicsSandboxTool";
 
 /** This will manage tools and UI for Physics Sandbox client-side */
 
@@ -51,6 +57,89 @@ export default class SimuloPhysicsSandboxClientPlugin implements SimuloClientPlu
 
     utilityBar: HTMLDivElement;
     toolBar: HTMLDivElement;
+    /** Settings of the selected tool, above the toolbar */
+    optionsPanel: HTMLDivElement;
+    timelineBar: HTMLDivElement;
+    /** Scrubber over the stored snapshots. The last position is the present, the others are `timelineState.snapshots` in order. */
+    timelineInput: HTMLInputElement;
+    /** Whether the player is dragging the scrubber, so updates from the server don't move it under them */
+    scrubbing: boolean = false;
+
+    /** Last time state from the server */
+    timeState: TimeState = { timeScale: 1, paused: false };
+    /** Last gravity state from the server */
+    gravityState: GravityState = { gravity: { x: 0, y: -9.81 }, fields: [] };
+    /** Last timeline state from the server */
+    timelineState: TimelineState = { tick: 0, snapshots: [] };
+
+    /** Ask the server to change simulation speed, like `0.5` for slow motion */
+    setTimeScale(timeScale: number) {
+        this.controller.emit('time_scale', timeScale);
+    }
+    pause() {
+        this.controller.emit('pause', null);
+    }
+    resume() {
+        this.controller.emit('resume', null);
+    }
+    /** Ask the server to run some physics steps, usually while paused */
+    advance(steps: number = 1) {
+        this.controller.emit('advance', steps);
+    }
+    setGravity(gravity: { x: number, y: number }) {
+        this.controller.emit('set_gravity', gravity);
+    }
+    addGravityField(field: SimuloGravityFieldDesc) {
+        this.controller.emit('add_gravity_field', field);
+    }
+    updateGravityField(id: string, field: SimuloGravityFieldDesc) {
+        this.controller.emit('update_gravity_field', { id, field });
+    }
+    removeGravityField(id: string) {
+        this.controller.emit('remove_gravity_field', id);
+    }
+    clearParticles() {
+        this.controller.emit('clear_particles', null);
+    }
+    toggleThruster(id: string) {
+        this.controller.emit('toggle_thruster', id);
+    }
+    /** Ask the server to rewind the world to a tick from `timelineState.snapshots` */
+    rewindTo(tick: number) {
+        this.controller.emit('rewind_to', tick);
+    }
+    /** Ask the server to change the drawing order of an object */
+    reorderObject(id: string, order: "bring_to_front" | "send_to_back" | "raise" | "lower") {
+        this.controller.emit('reorder_object', { id, order });
+    }
+    removeObjects(ids: string[]) {
+        this.controller.emit('remove_object', ids);
+    }
+    /** Undo this player's last action. Other players' changes aren't affected. */
+    undo() {
+        this.controller.emit('undo', null);
+    }
+    redo() {
+        this.controller.emit('redo', null);
+    }
+
+    /** Sandbox event for each mouse button, `_down` or `_up` is added to the end */
+    private buttonEvents: { [button: number]: string } = {
+        0: 'player',
+        1: 'player_middle',
+        2: 'player_secondary',
+    };
+    /** Modifiers from the last input event, since `pointermove` also fires without one when the camera moves */
+    private modifiers = { shift: false, ctrl: false, alt: false };
+    private updateModifiers(e: MouseEvent | KeyboardEvent | null) {
+        if (!e) return;
+        this.modifiers = { shift: e.shiftKey, ctrl: e.ctrlKey || e.metaKey, alt: e.altKey };
+    }
+    /** Position and modifiers to send with player input events */
+    private inputData(point: { x: number, y: number }, e: MouseEvent | null) {
+        this.updateModifiers(e);
+        return { x: point.x, y: point.y, ...this.modifiers };
+    }
 
     constructor(controller: SimuloClientController) {
         this.controller = controller;
@@ -59,17 +148,42 @@ export default class SimuloPhysicsSandboxClientPlugin implements SimuloClientPlu
         // listen to viewer events and emit them to the server in Physics Sandbox format
 
         this.viewer.on('pointerdown', (e: { point: { x: number, y: number }, event: any }) => {
-            if (e.event.button === 0) {
-                this.controller.emit('player_down', e.point);
+            let event = this.buttonEvents[e.event.button];
+            if (event) {
+                this.controller.emit(event + '_down', this.inputData(e.point, e.event));
             }
         });
         this.viewer.on('pointermove', (e: { point: { x: number, y: number }, event: any }) => {
-            this.controller.emit('player_move', e.point);
+            this.controller.emit('player_move', this.inputData(e.point, e.event));
         });
         this.viewer.on('pointerup', (e: { point: { x: number, y: number }, event: any }) => {
-            if (e.event.button === 0) {
-                this.controller.emit('player_up', e.point);
+            let event = this.buttonEvents[e.event.button];
+            if (event) {
+                this.controller.emit(event + '_up', this.inputData(e.point, e.event));
+            }
+        });
+        this.viewer.on('wheel', (e: { point: { x: number, y: number }, event: WheelEvent }) => {
+            this.controller.emit('player_scroll', { ...this.inputData(e.point, e.event), delta: e.event.deltaY });
+        });
+        // Ctrl+Z undoes, Ctrl+Shift+Z redoes, and other keys go to the server for tools and thrusters
+        this.viewer.on('keydown', (e: KeyboardEvent) => {
+            this.updateModifiers(e);
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    this.redo();
+                }
+                else {
+                    this.undo();
+                }
             }
+            else if (!e.repeat) {
+                this.controller.emit('key_down', { key: e.key, ...this.modifiers });
+            }
+        });
+        this.viewer.on('keyup', (e: KeyboardEvent) => {
+            this.updateModifiers(e);
+            this.controller.emit('key_up', { key: e.key, ...this.modifiers });
         });
 
         let renderLoop = () => {
@@ -90,18 +204,132 @@ export default class SimuloPhysicsSandboxClientPlugin implements SimuloClientPlu
         toolBar.className = 'bar tools';
         toolBar.style.display = 'none';
         this.toolBar = document.body.appendChild(toolBar);
+
+        let optionsPanel = document.createElement('div');
+        optionsPanel.className = 'bar options';
+        optionsPanel.style.display = 'none';
+        this.optionsPanel = document.body.appendChild(optionsPanel);
+
+        let timelineBar = document.createElement('div');
+        timelineBar.className = 'bar timeline';
+        let timelineInput = document.createElement('input');
+        timelineInput.type = 'range';
+        timelineInput.min = '0';
+        timelineInput.title = 'Rewind';
+        timelineInput.addEventListener('pointerdown', () => {
+            this.scrubbing = true;
+        });
+        // on the whole page, since the pointer can be let go outside of the slider
+        ['pointerup', 'pointercancel'].forEach((event) => {
+            document.addEventListener(event, () => {
+                this.scrubbing = false;
+            });
+        });
+        // only once the scrubber is let go, since each rewind restores the world and sends everyone a world snapshot
+        timelineInput.addEventListener('change', () => {
+            let tick = this.timelineState.snapshots[parseInt(timelineInput.value)];
+            if (tick !== undefined) {
+                this.rewindTo(tick);
+            }
+        });
+        this.timelineInput = timelineBar.appendChild(timelineInput);
+        this.timelineBar = document.body.appendChild(timelineBar);
+    }
+
+    /** Move the scrubber to match the server, unless the player is dragging it */
+    updateTimeline(timeline: TimelineState) {
+        this.timelineState = timeline;
+        if (this.scrubbing) return;
+        this.timelineInput.max = timeline.snapshots.length.toString();
+        // the newest snapshot is usually the tick that just ran, so it counts as the present
+        let index = timeline.snapshots.indexOf(timeline.tick);
+        this.timelineInput.value = (index === -1 || index === timeline.snapshots.length - 1 ? timeline.snapshots.length : index).toString();
     }
 
     destroy(): void { } // for now, nothing in destroy. in the future, this should properly dispose of everything cleanly
 
     toolElements: { [id: string]: HTMLDivElement } = {};
+    /** Last tool list from the server, with the option values we've set since */
+    tools: PhysicsSandboxToolInfo[] = [];
+
+    /** Change an option of one of our tools. Only this player's tool is changed. */
+    setToolOption(toolID: string, field: string, value: number | boolean | string) {
+        let option = this.tools.find((tool) => tool.id === toolID)?.options[field];
+        if (option) {
+            option.value = value;
+        }
+        this.controller.emit('tool_options', { tool: toolID, options: { [field]: value } });
+    }
 
-    async updateToolBar(tools: {
-        name: string,
-        icon: string,
-        description: string,
-        id: string
-    }[], toolID: string) {
+    /** Show the settings of a tool, or hide the panel if it has none */
+    updateOptionsPanel(toolID: string) {
+        let tool = this.tools.find((tool) => tool.id === toolID);
+        this.optionsPanel.innerHTML = '';
+        if (!tool || Object.keys(tool.options).length === 0) {
+            this.optionsPanel.style.display = 'none';
+            return;
+        }
+        this.optionsPanel.style.display = 'flex';
+        Object.keys(tool.options).forEach((field) => {
+            let option = tool!.options[field];
+            let label = document.createElement('label');
+            label.textContent = option.name;
+            if (option.type === 'number') {
+                let range = document.createElement('input');
+                range.type = 'range';
+                range.min = option.min.toString();
+                range.max = option.max.toString();
+                range.step = option.step?.toString() ?? 'any';
+                range.value = option.value.toString();
+                let valueText = document.createElement('span');
+                valueText.textContent = range.value;
+                range.addEventListener('input', () => {
+                    valueText.textContent = range.value;
+                    this.setToolOption(tool!.id, field, parseFloat(range.value));
+                });
+                label.appendChild(range);
+                label.appendChild(valueText);
+            }
+            else if (option.type === 'boolean') {
+                let checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = option.value as boolean;
+                checkbox.addEventListener('change', () => {
+                    this.setToolOption(tool!.id, field, checkbox.checked);
+                });
+                label.appendChild(checkbox);
+            }
+            else if (option.type === 'color') {
+                let color = document.createElement('input');
+                color.type = 'color';
+                color.value = '#' + (option.value as number).toString(16).padStart(6, '0');
+                color.addEventListener('input', () => {
+                    this.setToolOption(tool!.id, field, parseInt(color.value.slice(1), 16));
+                });
+                label.appendChild(color);
+            }
+            else {
+                let select = document.createElement('select');
+                let labels = option.labels;
+                option.values.forEach((value, i) => {
+                    let element = document.createElement('option');
+                    element.value = value;
+                    element.textContent = labels ? labels[i] : value;
+                    select.appendChild(element);
+                });
+                select.value = option.value as string;
+                select.addEventListener('change', () => {
+                    this.setToolOption(tool!.id, field, select.value);
+                });
+                label.appendChild(select);
+            }
+            this.optionsPanel.appendChild(label);
+        });
+    }
+
+    async updateToolBar(tools: PhysicsSandboxToolInfo[], toolID: string) {
+        this.tools = tools;
+        this.updateOptionsPanel(toolID);
         this.utilityBar.style.display = 'flex';
         this.toolBar.style.display = 'flex';
         this.toolBar.innerHTML = '';
@@ -125,14 +353,30 @@ export default class SimuloPhysicsSandboxClientPlugin implements SimuloClientPlu
             // the world has updated, let's update the viewer with the new data
             let worldUpdate = data as WorldUpdate;
             this.viewer.update(worldUpdate);
+            this.updateTimeline(worldUpdate.timeline);
+        }
+        if (event === 'world_snapshot') {
+            // we just connected (or the world was replaced), so rebuild the viewer from scratch
+            let snapshot = data as WorldSnapshot;
+            this.viewer.reset();
+            for (let key in snapshot.shapeContent) {
+                this.viewer.addShape(snapshot.shapeContent[key]);
+            }
+            this.viewer.updatePositions(snapshot.shapeTransforms);
+            this.viewer.updateParticles(snapshot.particles);
+            this.updateToolBar(snapshot.tools, snapshot.tool);
+            this.timeState = snapshot.time;
+            this.gravityState = snapshot.gravity;
+            this.updateTimeline(snapshot.timeline);
+        }
+        if (event === 'gravity_state') {
+            this.gravityState = data as GravityState;
+        }
+        if (event === 'time_state') {
+            this.timeState = data as TimeState;
         }
         if (event === 'tools') {
-            let tools = data.tools as {
-                name: string,
-                icon: string,
-                description: string,
-                id: string
-            }[];
+            let tools = data.tools as PhysicsSandboxToolInfo[];
             let tool = data.tool as string;
             this.updateToolBar(tools, tool);
         }
@@ -146,6 +390,7 @@ export default class SimuloPhysicsSandboxClientPlugin implements SimuloClientPlu
                     this.toolElements[tool].classList.add('active');
                 }
             });
+            this.updateOptionsPanel(data);
         }
     }
     handleOutgoingEvent(event: string, data: any): void { } // nothing here
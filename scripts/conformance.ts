@@ -0,0 +1,31 @@
+// Runs the physics backend conformance suite against every backend in Simulo. Exits with code 1 if any check fails, so it can be used in CI.
+
+import chalk from 'ansi-colors';
+
+import runConformanceSuite from '../shared/src/SimuloPhysicsServer/conformance.js';
+import SimuloPhysicsServerRapier from '../shared/src/SimuloPhysicsServerRapier/index.js';
+
+const backends = {
+    'Rapier': () => new SimuloPhysicsServerRapier(),
+};
+
+let failed = 0;
+for (const [name, createServer] of Object.entries(backends)) {
+    console.log(chalk.bold(name));
+    const results = await runConformanceSuite(createServer);
+    for (const result of results) {
+        if (result.passed) {
+            console.log(chalk.green('  ✓ ') + result.name);
+        }
+        else {
+            failed++;
+            console.log(chalk.red('  ✗ ') + result.name + chalk.gray(' - ' + result.error));
+        }
+    }
+}
+
+if (failed > 0) {
+    console.log(chalk.red('\n' + failed + ' check' + (failed === 1 ? '' : 's') + ' failed'));
+    process.exit(1);
+}
+console.log(chalk.green('\nAll checks passed'));
@@ -0,0 +1,23 @@
+// Runs the physics sandbox multiplayer checks, which drive several players at once. Exits with code 1 if any check fails, so it can be used in CI.
+
+import chalk from 'ansi-colors';
+
+import runMultiplayerChecks from '../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/multiplayer.js';
+
+let failed = 0;
+const results = await runMultiplayerChecks();
+for (const result of results) {
+    if (result.passed) {
+        console.log(chalk.green('  ✓ ') + result.name);
+    }
+    else {
+        failed++;
+        console.log(chalk.red('  ✗ ') + result.name + chalk.gray(' - ' + result.error));
+    }
+}
+
+if (failed > 0) {
+    console.log(chalk.red('\n' + failed + ' check' + (failed === 1 ? '' : 's') + ' failed'));
+    process.exit(1);
+}
+console.log(chalk.green('\nAll checks passed'));
@@ -0,0 +1,40 @@
+// Replays a recording from `SimuloServerController.stopRecording` saved as JSON, and prints a hash of the resulting world.
+// The same recording should always give the same hash, so it can be used to reproduce bug reports and in regression tests.
+// Usage: bun run scripts/replay.ts recording.json [expected hash]
+
+import fs from 'fs';
+import { createHash } from 'crypto';
+
+import chalk from 'ansi-colors';
+
+import SimuloServerController from '../shared/src/SimuloServerController/index.js';
+import type SimuloRecording from '../shared/src/SimuloServerController/SimuloRecording.js';
+import SimuloPhysicsPlugin from '../shared/src/plugins/SimuloPhysicsPlugin.js';
+import SimuloPhysicsSandboxServerPlugin from '../shared/src/plugins/SimuloPhysicsSandboxServerPlugin/index.js';
+
+const [recordingPath, expectedHash] = process.argv.slice(2);
+if (!recordingPath) {
+    console.log('Usage: bun run scripts/replay.ts recording.json [expected hash]');
+    process.exit(1);
+}
+const recording: SimuloRecording = JSON.parse(fs.readFileSync(recordingPath, 'utf8'));
+
+// same plugins as the client, in the same order
+const server = new SimuloServerController(60, recording.seed);
+const physicsPlugin = new SimuloPhysicsPlugin(server);
+await physicsPlugin.init();
+server.addPlugin(physicsPlugin);
+server.addPlugin(new SimuloPhysicsSandboxServerPlugin(server, physicsPlugin));
+
+server.replay(recording);
+
+// scene details have timestamps, so they're left out of the hash
+const scene = physicsPlugin.physicsServer.saveScene({ name: '', description: '', version: '', author: '', namespace: '', id: '', dependencies: [] });
+const hash = createHash('sha256').update(JSON.stringify({ ...scene, details: null })).digest('hex');
+console.log('Replayed ' + recording.tickSteps.length + ' ticks and ' + recording.events.length + ' events, ' + scene.objects.length + ' objects');
+console.log(hash);
+
+if (expectedHash && expectedHash !== hash) {
+    console.log(chalk.red('Expected ' + expectedHash));
+    process.exit(1);
+}
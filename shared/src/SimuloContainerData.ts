@@ -0,0 +1,8 @@
+/** Containers group objects, springs and other containers under one ID, like `/3`. Children get IDs like `/3/0`, so they can be moved, duplicated and deleted as a unit. */
+interface SimuloContainerData {
+    /** ID like `/3` or `/3/1`, never ending in a slash */
+    id: string;
+    name: string | undefined;
+}
+
+export default SimuloContainerData;
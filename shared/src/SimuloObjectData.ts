@@ -18,6 +18,8 @@ interface SimuloObjectData {
     /** We sort shapes with this for almost everything, including rendering. Newer shapes get a higher Z Depth. At the start of a scene, IDs and Z Depths will be the same, but user interaction can change this. */
     zDepth: number;
     flipImage?: boolean;
+    /** Collision layers. Objects only collide if they share a layer, so objects with no layers don't collide with anything. */
+    layers: string[];
 }
 
 export default SimuloObjectData;
\ No newline at end of file
@@ -0,0 +1,570 @@
+import type SimuloPhysicsServer from ".";
+import type { BaseShapeData, Polygon, Rectangle, Compound } from ".";
+import type SimuloScene from "../SimuloScene";
+import { SCENE_SCHEMA_VERSION } from "../SimuloScene";
+
+/** Result of one conformance check */
+interface SimuloConformanceResult {
+    name: string;
+    passed: boolean;
+    /** Why the check failed, if it did */
+    error?: string;
+}
+
+/** A conformance check, which throws if the backend doesn't behave as expected. The server is reset to an empty scene before each check. */
+interface SimuloConformanceCheck {
+    name: string;
+    run: (server: SimuloPhysicsServer) => void;
+}
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+
+function near(a: number, b: number, tolerance: number): boolean {
+    return Math.abs(a - b) <= tolerance;
+}
+
+function steps(server: SimuloPhysicsServer, count: number) {
+    for (let i = 0; i < count; i++) {
+        server.step();
+    }
+}
+
+function position(server: SimuloPhysicsServer, id: string): { x: number, y: number } {
+    let transform = server.getShapeTransforms()[id];
+    assert(transform !== undefined, 'Object `' + id + '` has no transform');
+    return { x: transform.x, y: transform.y };
+}
+
+/** Object data with defaults, so checks only need to specify what matters to them */
+function shape(overrides: Partial<BaseShapeData> = {}): BaseShapeData {
+    return {
+        name: undefined,
+        sound: null,
+        color: 0xffffff,
+        alpha: 1,
+        border: null,
+        borderWidth: null,
+        borderScaleWithZoom: false,
+        image: null,
+        position: { x: 0, y: 0 },
+        isStatic: false,
+        friction: 0.5,
+        restitution: 0,
+        density: 1,
+        ...overrides
+    };
+}
+
+function emptyScene(): SimuloScene {
+    return {
+        schemaVersion: SCENE_SCHEMA_VERSION,
+        details: {
+            name: "Conformance",
+            description: "Empty scene for conformance checks",
+            version: "0.1.0",
+            author: "Carroted",
+            namespace: "carroted",
+            id: "conformance",
+            dependencies: []
+        },
+        gravity: { x: 0, y: -9.81 },
+        currentIDs: {},
+        containers: [],
+        objects: [],
+        springs: [],
+        joints: [],
+        noCollide: [],
+        gravityFields: [],
+        particles: [],
+        thrusters: []
+    };
+}
+
+function addGround(server: SimuloPhysicsServer): string {
+    return server.addRectangle({ ...shape({ position: { x: 0, y: -1 }, isStatic: true }), width: 50, height: 1 });
+}
+
+const checks: SimuloConformanceCheck[] = [
+    {
+        name: "dynamic bodies fall with gravity",
+        run: (server) => {
+            let id = server.addCircle({ ...shape({ position: { x: 0, y: 10 } }), radius: 1 });
+            steps(server, 60);
+            // about 4.9 units after a second, depending on integration
+            let y = position(server, id).y;
+            assert(y < 7 && y > 3, 'Expected body to fall about 4.9 units in 60 steps, but it is at y ' + y);
+        }
+    },
+    {
+        name: "static bodies don't move",
+        run: (server) => {
+            let id = server.addRectangle({ ...shape({ position: { x: 3, y: 4 }, isStatic: true }), width: 1, height: 1 });
+            steps(server, 60);
+            let pos = position(server, id);
+            assert(pos.x === 3 && pos.y === 4, 'Static body moved to ' + pos.x + ', ' + pos.y);
+        }
+    },
+    {
+        name: "bodies rest on the ground",
+        run: (server) => {
+            addGround(server);
+            let id = server.addRectangle({ ...shape({ position: { x: 0, y: 3 } }), width: 0.5, height: 0.5 });
+            steps(server, 240);
+            let y = position(server, id).y;
+            assert(near(y, 0.5, 0.05), 'Expected box to rest at y 0.5, but it is at y ' + y);
+        }
+    },
+    {
+        name: "springs settle at their target length",
+        run: (server) => {
+            let id = server.addCircle({ ...shape({ position: { x: 0, y: -2.5 } }), radius: 1 });
+            server.addObjectSpring({
+                bodyA: id,
+                bodyB: null,
+                localAnchorA: { x: 0, y: 0 },
+                localAnchorB: { x: 0, y: 0 },
+                stiffness: 1,
+                damping: 0.5,
+                targetLength: 2
+            });
+            steps(server, 600);
+            // springs are stretched a bit past their target length by the weight of the body
+            let y = position(server, id).y;
+            assert(y < -2 && y > -3, 'Expected body to hang just below y -2, but it is at y ' + y);
+            assert(server.getSpringInfos().length === 1, 'Expected 1 spring info, got ' + server.getSpringInfos().length);
+        }
+    },
+    {
+        name: "removing objects",
+        run: (server) => {
+            let a = server.addCircle({ ...shape({ position: { x: 0, y: 0 } }), radius: 1 });
+            let b = server.addCircle({ ...shape({ position: { x: 5, y: 0 } }), radius: 1 });
+            server.addObjectSpring({
+                bodyA: a,
+                bodyB: b,
+                localAnchorA: { x: 0, y: 0 },
+                localAnchorB: { x: 0, y: 0 },
+                stiffness: 10,
+                damping: 1,
+                targetLength: 5
+            });
+            server.step();
+            assert(server.removeObject(a), 'removeObject returned false for an existing object');
+            assert(!server.removeObject(a), 'removeObject returned true for an object that was already removed');
+            let info = server.step();
+            assert(info.delta.removed.includes(a), 'Removed object is missing from `delta.removed`');
+            assert(server.getObjectData(a) === null, 'Removed object still has data');
+            assert(server.getShapeContents()[a] === undefined, 'Removed object still has shape content');
+            assert(Object.keys(server.springs).length === 0, 'Springs attached to a removed object should be removed too');
+            assert(server.getObjectData(b) !== null, 'Removing one object removed another');
+        }
+    },
+    {
+        name: "IDs and containers",
+        run: (server) => {
+            let a = server.addCircle({ ...shape(), radius: 1 });
+            let container = server.addContainer("Group");
+            let b = server.addCircle({ ...shape({ container }), radius: 1 });
+            assert(/^\/\d+$/.test(a), 'Expected an ID like /0, got ' + a);
+            assert(b.startsWith(container + "/"), 'Expected an ID in container ' + container + ', got ' + b);
+            assert(server.getParentContainer(b) === container, 'Expected parent of ' + b + ' to be ' + container);
+            let objects = server.getContainerObjects(container);
+            assert(objects.length === 1 && objects[0] === b, 'Expected container to only have ' + b + ', got ' + objects.join(", "));
+
+            let copy = server.duplicateContainer(container, { x: 10, y: 0 });
+            let copied = server.getContainerObjects(copy);
+            assert(copy !== container && copied.length === 1, 'Duplicated container should have its own copy of the object');
+            assert(near(position(server, copied[0]).x, 10, 0.001), 'Duplicated object was not offset');
+
+            server.removeContainer(container);
+            assert(server.getObjectData(b) === null, 'Removing a container should remove the objects in it');
+            assert(server.getObjectData(a) !== null, 'Removing a container removed an object outside of it');
+        }
+    },
+    {
+        name: "scene round trip",
+        run: (server) => {
+            server.addRectangle({ ...shape({ position: { x: 1, y: 2 }, angle: 0.5, color: 0xff0000 }), width: 2, height: 1 });
+            let container = server.addContainer("Group");
+            let a = server.addCircle({ ...shape({ container, position: { x: -3, y: 0 } }), radius: 1 });
+            let b = server.addCircle({ ...shape({ container, position: { x: 3, y: 0 } }), radius: 1 });
+            server.addObjectSpring({
+                bodyA: a,
+                bodyB: b,
+                localAnchorA: { x: 0, y: 0 },
+                localAnchorB: { x: 0, y: 0 },
+                stiffness: 10,
+                damping: 1,
+                targetLength: 6
+            });
+            server.addHingeJoint({ bodyA: a, bodyB: b, localAnchorA: { x: 3, y: 0 }, localAnchorB: { x: -3, y: 0 } });
+            server.setNoCollide(a, b);
+            server.setObjectLayers(a, ["default", "wheels"]);
+            server.addCompound({
+                ...shape({ position: { x: 0, y: 5 } }),
+                children: [
+                    { type: "rectangle", width: 2, height: 1, position: { x: 0, y: 0 }, angle: 0.3 },
+                    { type: "polygon", points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }], position: { x: 1, y: 0 }, friction: 1 }
+                ]
+            });
+
+            let scene = server.saveScene(emptyScene().details);
+            server.loadScene(JSON.parse(JSON.stringify(scene)));
+            let resaved = server.saveScene(emptyScene().details);
+            // details have save timestamps, so only compare the world
+            assert(JSON.stringify({ ...resaved, details: null }) === JSON.stringify({ ...scene, details: null }), 'Saving a loaded scene should give the same scene');
+            let next = server.addCircle({ ...shape(), radius: 1 });
+            assert(!scene.objects.some((saved) => saved.data.id === next), 'New object after loading reused the ID ' + next);
+        }
+    },
+    {
+        name: "joints",
+        run: (server) => {
+            let a = server.addRectangle({ ...shape({ position: { x: 0, y: 0 }, isStatic: true }), width: 0.5, height: 0.5 });
+            let b = server.addRectangle({ ...shape({ position: { x: 2, y: 0 } }), width: 0.5, height: 0.5 });
+            let bolt = server.addBoltJoint({ bodyA: a, bodyB: b, localAnchorA: { x: 1, y: 0 }, localAnchorB: { x: -1, y: 0 } });
+            steps(server, 120);
+            let pos = position(server, b);
+            assert(near(pos.x, 2, 0.1) && near(pos.y, 0, 0.1), 'Bolted body moved to ' + pos.x + ', ' + pos.y);
+            assert(server.getJointInfos().length === 1, 'Expected 1 joint info, got ' + server.getJointInfos().length);
+
+            bolt.destroy();
+            assert(server.getJoint(bolt.id) === null, 'Destroyed joint still exists');
+            let hinge = server.addHingeJoint({ bodyA: a, bodyB: b, localAnchorA: { x: 1, y: 0 }, localAnchorB: { x: -1, y: 0 } });
+            steps(server, 120);
+            pos = position(server, b);
+            // swings down around the hinge, staying 1 unit away from it
+            assert(pos.y < -0.5, 'Hinged body should swing down, but it is at y ' + pos.y);
+            assert(near(Math.hypot(pos.x - 1, pos.y), 1, 0.1), 'Hinged body drifted away from its hinge');
+
+            server.removeObject(b);
+            assert(server.getJoint(hinge.id) === null, 'Joints attached to a removed object should be removed too');
+
+            // limited hinge, which can only swing a little
+            let c = server.addRectangle({ ...shape({ position: { x: 2, y: 0 } }), width: 0.5, height: 0.5 });
+            server.addHingeJoint({ bodyA: a, bodyB: c, localAnchorA: { x: 1, y: 0 }, localAnchorB: { x: -1, y: 0 }, limits: [-0.1, 0.1] });
+            steps(server, 120);
+            pos = position(server, c);
+            let angle = Math.atan2(pos.y, pos.x - 1);
+            assert(angle > -0.2 && angle < 0.2, 'Limited hinge should stay within its limits, but swung to ' + angle + ' rad');
+        }
+    },
+    {
+        name: "concave polygons",
+        run: (server) => {
+            // L shape, with the notch at the top right
+            let outline = [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 2 }, { x: 0, y: 2 }];
+            let id = server.addPolygon({ ...shape({ isStatic: true }), points: outline });
+            server.step();
+            assert(server.getObjectAtPoint(0.5, 1.5) === id, 'Expected ' + id + ' in the top left of the L');
+            assert(server.getObjectAtPoint(1.5, 0.5) === id, 'Expected ' + id + ' in the bottom right of the L');
+            assert(server.getObjectAtPoint(1.5, 1.5) === null, 'Expected nothing in the notch of the L');
+            let content = server.getShapeContents()[id];
+            assert(content.type === "polygon" && JSON.stringify((content as Polygon).points) === JSON.stringify(outline.map((point) => [point.x, point.y])), 'Shape content should have the original outline');
+
+            let threw = false;
+            try {
+                server.addPolygon({ ...shape(), points: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 1, y: 0 }, { x: 0, y: 1 }] });
+            }
+            catch (e) {
+                threw = true;
+            }
+            assert(threw, 'Self-intersecting polygons should throw an error');
+        }
+    },
+    {
+        name: "compound objects",
+        run: (server) => {
+            addGround(server);
+            // L shape made of two rectangles and a circle, where the circle has its own color
+            let id = server.addCompound({
+                ...shape({ position: { x: 0, y: 5 }, color: 0xff0000 }),
+                children: [
+                    { type: "rectangle", width: 4, height: 1, position: { x: 0, y: 0 } },
+                    { type: "rectangle", width: 1, height: 3, position: { x: -1.5, y: 2 } },
+                    { type: "circle", radius: 0.5, position: { x: 2, y: 0 }, color: 0x00ff00 }
+                ]
+            });
+            let content = server.getShapeContents()[id] as Compound;
+            assert(content.type === "compound" && content.children.length === 3, 'Expected compound shape content with 3 children');
+            assert(content.children[0].color === 0xff0000 && content.children[2].color === 0x00ff00, 'Children should use the compound color unless they set their own');
+            assert(content.children[1].x === -1.5 && content.children[1].y === 2, 'Children should keep their local positions');
+
+            server.step();
+            assert(server.getObjectAtPoint(-1.5, 8) === id, 'Expected ' + id + ' at the top of the L');
+            assert(server.getObjectAtPoint(1, 8) === null, 'Expected nothing next to the top of the L');
+            steps(server, 240);
+            let pos = position(server, id);
+            assert(pos.y < 1.5, 'Compound should fall to the ground as one object, but it is at y ' + pos.y);
+
+            let saved = server.saveObject(id);
+            assert(saved !== null && saved.shape.type === "compound", 'Saved compound should have compound shape');
+        }
+    },
+    {
+        name: "changing object properties",
+        run: (server) => {
+            addGround(server);
+            let box = server.addRectangle({ ...shape({ position: { x: 0, y: 0.5 } }), width: 0.5, height: 0.5 });
+            let ball = server.addCircle({ ...shape({ position: { x: 5, y: 0.5 }, isStatic: true }), radius: 0.5 });
+            server.step();
+
+            server.setObjectProperties(box, { color: 0x00ff00, name: "Box", width: 1, height: 2 });
+            let info = server.step();
+            let content = info.delta.shapeContent[box] as Rectangle;
+            assert(content !== undefined, 'Changed object should be in the next shape content delta');
+            assert(content.color === 0x00ff00 && content.width === 2 && content.height === 4, 'Shape content should have the new color and size');
+            assert(server.getObjectData(box)!.name === "Box", 'Object data should have the new name');
+            assert(server.getObjectAtPoint(0.9, 1) === box, 'Collider should have the new size');
+            steps(server, 120);
+            assert(near(position(server, box).y, 2, 0.05), 'Resized box should rest on the ground at y 2, but it is at y ' + position(server, box).y);
+
+            // static objects don't move, but clients still need their transform to rebuild the changed shape
+            server.setObjectProperties(ball, { color: 0x0000ff });
+            info = server.step();
+            assert(info.delta.shapeContent[ball] !== undefined && info.delta.shapeTransforms[ball] !== undefined, 'Changed static object should have its transform in the same delta');
+
+            server.setObjectProperties(ball, { isStatic: false, radius: 1 });
+            let threw = false;
+            try {
+                server.setObjectProperties(ball, { width: 2 });
+            }
+            catch (e) {
+                threw = true;
+            }
+            assert(threw, 'Setting a rectangle size on a circle should throw an error');
+            steps(server, 120);
+            assert(near(position(server, ball).y, 1, 0.05), 'Ball that is not static anymore should rest on the ground at y 1, but it is at y ' + position(server, ball).y);
+            assert(server.saveObject(ball)!.isStatic === false, 'Saved object should not be static anymore');
+        }
+    },
+    {
+        name: "collision layers",
+        run: (server) => {
+            let ground = addGround(server);
+            let ghost = server.addRectangle({ ...shape({ position: { x: -5, y: 1 }, layers: ["ghost"] }), width: 0.5, height: 0.5 });
+            let box = server.addRectangle({ ...shape({ position: { x: 0, y: 1 } }), width: 0.5, height: 0.5 });
+            let other = server.addRectangle({ ...shape({ position: { x: 5, y: 1 } }), width: 0.5, height: 0.5 });
+            server.setNoCollide(other, ground);
+            steps(server, 60);
+            assert(position(server, ghost).y < -1, 'Objects on different layers should pass through each other');
+            assert(near(position(server, box).y, 0.5, 0.05), 'Objects on the same layer should collide');
+            assert(position(server, other).y < -1, 'Objects in a no-collide pair should pass through each other');
+
+            assert(server.getObjectData(ghost)!.layers.join() === "ghost", 'Object data should have the layers');
+            server.setObjectLayers(box, ["ghost"]);
+            steps(server, 60);
+            assert(position(server, box).y < -1, 'Changing layers should stop objects from colliding');
+            assert(server.getNoCollidePairs().length === 1, 'Expected 1 no-collide pair');
+            server.removeObject(other);
+            assert(server.getNoCollidePairs().length === 0, 'No-collide pairs should be removed with their objects');
+        }
+    },
+    {
+        name: "finding objects at a point",
+        run: (server) => {
+            let id = server.addRectangle({ ...shape({ position: { x: 5, y: 5 }, isStatic: true }), width: 1, height: 1 });
+            server.step();
+            assert(server.getObjectAtPoint(5.5, 5.5) === id, 'Expected ' + id + ' at 5.5, 5.5');
+            assert(server.getObjectAtPoint(0, 0) === null, 'Expected nothing at 0, 0');
+            let local = server.getObjectLocalPoint(id, { x: 5.5, y: 4 });
+            assert(local !== null && near(local.x, 0.5, 0.001) && near(local.y, -1, 0.001), 'Wrong local point');
+            let world = server.getObjectWorldPoint(id, { x: 0.5, y: -1 });
+            assert(world !== null && near(world.x, 5.5, 0.001) && near(world.y, 4, 0.001), 'Wrong world point');
+        }
+    },
+    {
+        name: "spatial queries",
+        run: (server) => {
+            let back = server.addRectangle({ ...shape({ position: { x: 0, y: 0 }, isStatic: true, zDepth: 1 }), width: 1, height: 1 });
+            let front = server.addCircle({ ...shape({ position: { x: 0.5, y: 0 }, isStatic: true, zDepth: 2 }), radius: 0.5 });
+            let far = server.addRectangle({ ...shape({ position: { x: 10, y: 0 }, isStatic: true, layers: ["background"] }), width: 1, height: 1 });
+            server.step();
+
+            let ids = server.getObjectsAtPoint(0.5, 0);
+            assert(ids.length === 2 && ids[0] === front && ids[1] === back, 'Expected ' + front + ' above ' + back + ', got ' + ids.join(", "));
+            assert(server.getTopmostObjectAtPoint(0.5, 0) === front, 'Expected ' + front + ' on top');
+            assert(server.getTopmostObjectAtPoint(0.5, 0, { exclude: [front] }) === back, 'Excluded objects should be ignored');
+
+            let hit = server.raycast({ x: -5, y: 0 }, { x: 2, y: 0 }, 100);
+            assert(hit !== null && hit.id === back && near(hit.distance, 4, 0.001) && near(hit.point.x, -1, 0.001) && near(hit.normal.x, -1, 0.001), 'Ray should hit the left side of ' + back);
+            let hits = server.raycastAll({ x: -5, y: 0 }, { x: 1, y: 0 }, 100);
+            assert(hits.map((hit) => hit.id).join() === [back, front, far].join(), 'Expected all objects hit in order, got ' + hits.map((hit) => hit.id).join(", "));
+            assert(server.raycastAll({ x: -5, y: 0 }, { x: 1, y: 0 }, 100, { layers: ["background"] }).length === 1, 'Ray should only hit objects on the filtered layers');
+            assert(server.raycast({ x: -5, y: 0 }, { x: 1, y: 0 }, 2) === null, 'Ray should stop at its max distance');
+
+            assert(server.queryRegion({ x: 11, y: 1 }, { x: -0.8, y: -1 }).length === 3, 'Region should find all objects');
+            assert(server.queryRegion({ x: 2, y: -1 }, { x: 8.5, y: 1 }).length === 0, 'Region between objects should be empty');
+            let found = server.queryShape({ type: "circle", radius: 1, position: { x: 9, y: 0 } });
+            assert(found.length === 1 && found[0] === far, 'Circle should only overlap ' + far);
+            assert(server.queryShape({ type: "polygon", points: [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }], position: { x: 1.5, y: -1 } }).length === 0, 'Triangle next to the circle should not overlap anything');
+        }
+    },
+    {
+        name: "drawing order",
+        run: (server) => {
+            let a = server.addCircle({ ...shape({ position: { x: 0, y: 0 }, isStatic: true }), radius: 1 });
+            let b = server.addCircle({ ...shape({ position: { x: 0, y: 0 }, isStatic: true }), radius: 1 });
+            let c = server.addCircle({ ...shape({ position: { x: 0, y: 0 }, isStatic: true }), radius: 1 });
+            server.step();
+            let order = () => server.getObjectsAtPoint(0, 0).join(", ");
+            assert(order() === [c, b, a].join(", "), 'Newer objects should be on top, got ' + order());
+            server.bringToFront(a);
+            assert(order() === [a, c, b].join(", "), 'Expected ' + a + ' brought to front, got ' + order());
+            server.sendToBack(c);
+            assert(order() === [a, b, c].join(", "), 'Expected ' + c + ' sent to back, got ' + order());
+            server.raise(c);
+            assert(order() === [a, c, b].join(", "), 'Expected ' + c + ' raised, got ' + order());
+            server.lower(a);
+            assert(order() === [c, a, b].join(", "), 'Expected ' + a + ' lowered, got ' + order());
+            server.raise(c);
+            assert(order() === [c, a, b].join(", "), 'Raising the top object should do nothing, got ' + order());
+            let contents = server.getShapeContents();
+            assert(contents[c].zDepth > contents[a].zDepth && contents[a].zDepth > contents[b].zDepth, 'Shape contents should have the new Z Depths');
+            server.bringToFront(b);
+            let info = server.step();
+            assert(info.delta.shapeContent[b] !== undefined && info.delta.shapeTransforms[b] !== undefined, 'Reordered static object should have its transform in the same delta');
+
+            // objects with the same Z Depth are sorted by age, even when a new object takes the place of a removed one
+            server.removeObject(server.addCircle({ ...shape({ position: { x: 20, y: 0 }, isStatic: true }), radius: 1 }));
+            let second = server.addCircle({ ...shape({ position: { x: 10, y: 0 }, isStatic: true, zDepth: 100 }), radius: 1 });
+            let third = server.addCircle({ ...shape({ position: { x: 10, y: 0 }, isStatic: true, zDepth: 100 }), radius: 1 });
+            server.step();
+            let tied = server.getObjectsAtPoint(10, 0).join(", ");
+            assert(tied === [third, second].join(", "), 'Newer object should be on top of an older one with the same Z Depth, got ' + tied);
+        }
+    },
+    {
+        name: "gravity scale and gravity fields",
+        run: (server) => {
+            let floating = server.addCircle({ ...shape({ position: { x: 0, y: 0 }, gravityScale: 0 }), radius: 0.5 });
+            let heavy = server.addCircle({ ...shape({ position: { x: 5, y: 0 }, gravityScale: 2 }), radius: 0.5 });
+            let zeroG = server.addCircle({ ...shape({ position: { x: 15, y: 0 } }), radius: 0.5 });
+            server.addGravityField({ type: "zero", position: { x: 15, y: 0 }, radius: 3 });
+            steps(server, 30);
+            assert(near(position(server, floating).y, 0, 0.001), 'Object with gravity scale 0 should float');
+            assert(position(server, heavy).y < -2, 'Object with gravity scale 2 should fall faster');
+            assert(near(position(server, zeroG).y, 0, 0.001), 'Object in a zero gravity field should float, but it is at y ' + position(server, zeroG).y);
+
+            server.setGravity({ x: 0, y: 0 });
+            let planet = server.addGravityField({ type: "radial", position: { x: 20, y: 10 }, radius: 20, strength: 5, falloff: "inverse_square" });
+            let orbiter = server.addCircle({ ...shape({ position: { x: 20, y: 0 } }), radius: 0.5 });
+            let wind = server.addGravityField({ type: "directional", position: { x: 40, y: 0 }, radius: 5, direction: { x: 5, y: 0 }, layers: ["wind"] });
+            let blown = server.addCircle({ ...shape({ position: { x: 40, y: 0 }, layers: ["wind"] }), radius: 0.5 });
+            let still = server.addCircle({ ...shape({ position: { x: 40, y: 3 } }), radius: 0.5 });
+            steps(server, 30);
+            assert(position(server, orbiter).y > 0, 'Radial field should pull objects towards it');
+            assert(position(server, blown).x > 40.5, 'Directional field should push objects on its layers');
+            assert(near(position(server, still).x, 40, 0.001), 'Directional field should ignore objects on other layers');
+
+            let scene = server.saveScene(emptyScene().details);
+            assert(scene.gravity.y === 0 && scene.gravityFields.length === 3, 'Scene should have the new gravity and all fields');
+            assert(scene.objects.find((object) => object.data.id === floating)?.gravityScale === 0, 'Scene should keep gravity scale');
+            assert(server.removeGravityField(planet) && server.getGravityField(planet) === null, 'Removed field should be gone');
+            assert(server.updateGravityField(wind, { layers: undefined }) && server.getGravityField(wind)?.layers === undefined, 'Field should be updated');
+        }
+    },
+    {
+        name: "particles",
+        run: (server) => {
+            addGround(server);
+            let particles = [];
+            for (let i = 0; i < 100; i++) {
+                particles.push({ position: { x: (i % 10) * 0.25, y: 1 + Math.floor(i / 10) * 0.25 }, radius: 0.1, color: 0x0000ff });
+            }
+            server.addParticles(particles);
+            let data = server.step().particles;
+            assert(data.positions.length === 200 && data.colors?.length === 100 && data.radii?.length === 100, 'First step after adding particles should have all of them');
+            data = server.step().particles;
+            assert(data.colors === null && data.radii === null, 'Colors and radii should only be sent when particles change');
+            steps(server, 120);
+            data = server.getParticleData();
+            let lowest = Math.min(...data.positions.filter((_, i) => i % 2 === 1));
+            assert(lowest > 0 && lowest < 0.5, 'Particles should fall and rest on the ground, lowest is at y ' + lowest);
+            assert(server.getObjectsAtPoint(data.positions[0], data.positions[1]).length === 0, 'Queries should ignore particles');
+
+            let scene = server.saveScene(emptyScene().details);
+            assert(scene.particles.length === 100, 'Scene should have all particles');
+            let removed = server.removeParticlesInRadius({ x: 0, y: 0 }, 1000);
+            assert(removed === 100 && server.getParticleCount() === 0, 'Expected all particles to be removed, but ' + removed + ' were');
+            server.loadScene(scene);
+            assert(server.getParticleCount() === 100, 'Loading the scene should bring the particles back');
+        }
+    },
+    {
+        name: "thrusters",
+        run: (server) => {
+            let rocket = server.addRectangle({ ...shape({ position: { x: 0, y: 0 } }), width: 0.5, height: 0.5 });
+            let thruster = server.addThruster({ body: rocket, localAnchor: { x: 0, y: -0.5 }, direction: { x: 0, y: 2 }, strength: 15, enabled: true, key: " " });
+            steps(server, 30);
+            assert(position(server, rocket).y > 0.3, 'Thruster stronger than gravity should lift the object');
+            let info = server.step().thrusters;
+            assert(info.length === 1 && info[0].id === thruster && near(info[0].direction.y, 1, 0.001) && info[0].enabled, 'Thruster info should have a normalized direction');
+
+            assert(server.getThrustersWithKey(" ").join() === thruster, 'Expected ' + thruster + ' to be bound to space');
+            server.updateThruster(thruster, { enabled: false, key: undefined });
+            assert(server.getThruster(thruster)?.key === " ", 'Undefined changes should be ignored');
+            let height = position(server, rocket).y;
+            steps(server, 60);
+            assert(position(server, rocket).y < height, 'Object should fall with its thruster disabled');
+
+            let scene = server.saveScene(emptyScene().details);
+            assert(scene.thrusters.length === 1 && scene.thrusters[0].body === rocket, 'Scene should have the thruster');
+            server.removeObject(rocket);
+            assert(server.getThruster(thruster) === null, 'Removing an object should remove its thrusters');
+        }
+    },
+    {
+        name: "snapshots",
+        run: (server) => {
+            addGround(server);
+            let a = server.addRectangle({ ...shape({ position: { x: 0, y: 3 }, name: "A" }), width: 0.5, height: 0.5 });
+            let b = server.addCircle({ ...shape({ position: { x: 3, y: 3 } }), radius: 0.5 });
+            server.addObjectSpring({ bodyA: a, bodyB: b, localAnchorA: { x: 0, y: 0 }, localAnchorB: { x: 0, y: 0 }, stiffness: 20, damping: 1, targetLength: 1 });
+            steps(server, 10);
+            let snapshot = server.takeSnapshot();
+            let before = position(server, a);
+
+            steps(server, 60);
+            let after = position(server, a);
+            server.setObjectProperties(a, { name: "Changed", color: 0x00ff00 });
+            let c = server.addCircle({ ...shape({ position: { x: 10, y: 3 } }), radius: 0.5 });
+            server.removeObject(b);
+
+            server.restoreSnapshot(snapshot);
+            assert(near(position(server, a).x, before.x, 0.0001) && near(position(server, a).y, before.y, 0.0001), 'Restoring should move objects back');
+            assert(server.getObjectData(a)?.name === "A", 'Restoring should bring back object data, but name is ' + server.getObjectData(a)?.name);
+            assert(server.getObjectData(b) !== null && server.getObjectData(c) === null, 'Restoring should bring back removed objects and remove new ones');
+            assert(server.getSpringInfos().length === 1, 'Restoring should bring back springs');
+            assert(server.step().delta.removed.includes(c), 'First step after restoring should remove new objects on clients');
+
+            // the same snapshot can be restored again, and should play out the same way
+            server.restoreSnapshot(snapshot);
+            steps(server, 60);
+            assert(near(position(server, a).x, after.x, 0.0001) && near(position(server, a).y, after.y, 0.0001), 'Simulation should continue the same way after restoring');
+        }
+    }
+];
+
+/** Run every conformance check against a physics backend. `createServer` is called once and the server is initialized here, then reset with `loadScene` before each check. */
+async function runConformanceSuite(createServer: () => SimuloPhysicsServer): Promise<SimuloConformanceResult[]> {
+    let server = createServer();
+    await server.init();
+    return checks.map((check) => {
+        try {
+            server.loadScene(emptyScene());
+            check.run(server);
+            return { name: check.name, passed: true };
+        }
+        catch (e) {
+            return { name: check.name, passed: false, error: e instanceof Error ? e.message : String(e) };
+        }
+    });
+}
+
+export default runConformanceSuite;
+export type { SimuloConformanceResult, SimuloConformanceCheck };
@@ -0,0 +1,724 @@
+import type SimuloObjectData from "../SimuloObjectData";
+import type SimuloContainerData from "../SimuloContainerData";
+import type SimuloItemDetails from "../SimuloItemDetails";
+import type SimuloScene from "../SimuloScene";
+import type { SimuloSavedObject, SimuloSavedShape, SimuloSavedSpring, SimuloSavedGroup } from "../SimuloScene";
+
+interface ShapeContentData {
+    id: string;
+    type: "rectangle" | "circle" | "polygon" | "line" | "compound";
+    color: number;
+    /** 0-1 alpha */
+    alpha: number;
+    border: number | null;
+    borderWidth: number | null;
+    /** Shapes with higher Z Depth are drawn on top */
+    zDepth: number;
+}
+
+interface Polygon extends ShapeContentData {
+    type: "polygon";
+    points: [x: number, y: number][];
+}
+
+interface Rectangle extends ShapeContentData {
+    type: "rectangle";
+    width: number;
+    height: number;
+}
+
+interface Circle extends ShapeContentData {
+    type: "circle";
+    radius: number;
+    circleCake: boolean;
+}
+
+/** Shape of a compound, with its position and angle relative to the compound */
+type CompoundChildContent = (Omit<Rectangle, "id"> | Omit<Circle, "id"> | Omit<Polygon, "id">) & ShapeTransformData;
+
+/** Several shapes that move together as one object */
+interface Compound extends ShapeContentData {
+    type: "compound";
+    children: CompoundChildContent[];
+}
+
+/** Translation and rotation to apply to a shape. Scale is not included in this (and is instead in `ShapeContentData`) since it rarely changes, unlike position and rotation, which usually change every frame. */
+interface ShapeTransformData {
+    x: number;
+    y: number;
+    angle: number;
+}
+
+interface SimuloPhysicsStepInfo {
+    delta: {
+        /** Shape content that has changed since last step. */
+        shapeContent: { [id: string]: ShapeContentData };
+
+        /** New positioning and rotation of shape contents. Only includes shapes that moved or woke up since last step, unless `keyframe` is set. */
+        shapeTransforms: { [id: string]: ShapeTransformData };
+
+        /** If true, `shapeTransforms` includes every shape, not just the ones that changed. */
+        keyframe: boolean;
+
+        /** IDs of shapes that were removed since last step. */
+        removed: string[];
+    };
+
+    ms: number;
+
+    /** Spring rendering data */
+    springs: SimuloSpringInfo[];
+
+    /** Joint rendering data */
+    joints: SimuloJointInfo[];
+
+    /** Thruster rendering data */
+    thrusters: SimuloThrusterInfo[];
+
+    /** Positions of all particles, separate from shapes since there can be thousands of them */
+    particles: SimuloParticleData;
+}
+
+/** Particles in a compact format, since there can be thousands of them. Particle `i` is at `positions[i * 2]`, `positions[i * 2 + 1]`. */
+interface SimuloParticleData {
+    /** x and y of each particle, one after another */
+    positions: number[];
+    /** Color of each particle. `null` if no particles were added or removed since the last step, so the colors are the same as before. */
+    colors: number[] | null;
+    /** Radius of each particle. `null` in the same cases as `colors`. */
+    radii: number[] | null;
+}
+
+/** A small circle that collides with objects, used for sand, water and the like. Particles don't have IDs, and can't be changed after they're added. */
+interface SimuloParticleDesc {
+    position: { x: number, y: number };
+    velocity?: { x: number, y: number };
+    radius: number;
+    color: number;
+}
+
+/** Simulo creates fake spring joint with `applyImpulseAtPoint` on two bodies.
+ * 
+ * Since you provide your own functions like `getBodyAPosition`, this is general-purpose, and you can do things like attach one end to a mouse cursor. */
+
+interface SimuloSpringDesc {
+    getBodyAPosition: () => { x: number, y: number };
+    getBodyBPosition: () => { x: number, y: number };
+
+    getBodyARotation: () => number;
+    getBodyBRotation: () => number;
+
+    getBodyAVelocity: () => { x: number, y: number };
+    getBodyBVelocity: () => { x: number, y: number };
+
+    applyBodyAImpulse: (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void;
+    applyBodyBImpulse: (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void;
+
+    localAnchorA: { x: number, y: number };
+    localAnchorB: { x: number, y: number };
+
+    /** Multiplier of spring impulse */
+    stiffness: number;
+
+    /** Dampens spring, stopping it from infinitely oscillating */
+    damping: number;
+
+    /** Target length is also known as rest length. We chose to call it target length because it's more descriptive of how it's used. */
+    targetLength: number;
+
+    /** ID of the object at end A. Springs are removed along with the objects they're attached to.
+     * 
+     * `null` means the end is fixed in the world. Leave this out if the end is driven by your own functions, like a mouse cursor. Only springs with both ends set can be saved in scenes. */
+    bodyA?: string | null;
+    /** ID of the object at end B, see `bodyA` */
+    bodyB?: string | null;
+
+    /** Temporary springs, like the drag tool's, aren't saved in scenes */
+    temporary?: boolean;
+}
+
+/** Interactive class for Simulo spring */
+class SimuloSpring {
+    readonly id: string;
+    private desc: SimuloSpringDesc;
+    private server: SimuloPhysicsServer;
+    constructor(server: SimuloPhysicsServer, desc: SimuloSpringDesc, id: string) {
+        this.id = id;
+        this.desc = desc;
+        this.server = server;
+    }
+    get targetLength(): number {
+        return this.desc.targetLength;
+    }
+    set targetLength(value: number) {
+        this.desc.targetLength = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get damping(): number {
+        return this.desc.damping;
+    }
+    set damping(value: number) {
+        this.desc.damping = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get stiffness(): number {
+        return this.desc.stiffness;
+    }
+    set stiffness(value: number) {
+        this.desc.stiffness = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get localAnchorA(): { x: number, y: number } {
+        return this.desc.localAnchorA;
+    }
+    set localAnchorA(value: { x: number, y: number }) {
+        this.desc.localAnchorA = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get localAnchorB(): { x: number, y: number } {
+        return this.desc.localAnchorB;
+    }
+    set localAnchorB(value: { x: number, y: number }) {
+        this.desc.localAnchorB = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get getBodyAPosition(): () => { x: number, y: number } {
+        return this.desc.getBodyAPosition;
+    }
+    set getBodyAPosition(value: () => { x: number, y: number }) {
+        this.desc.getBodyAPosition = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get getBodyBPosition(): () => { x: number, y: number } {
+        return this.desc.getBodyBPosition;
+    }
+    set getBodyBPosition(value: () => { x: number, y: number }) {
+        this.desc.getBodyBPosition = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get getBodyARotation(): () => number {
+        return this.desc.getBodyARotation;
+    }
+    set getBodyARotation(value: () => number) {
+        this.desc.getBodyARotation = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get getBodyBRotation(): () => number {
+        return this.desc.getBodyBRotation;
+    }
+    set getBodyBRotation(value: () => number) {
+        this.desc.getBodyBRotation = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get getBodyAVelocity(): () => { x: number, y: number } {
+        return this.desc.getBodyAVelocity;
+    }
+    set getBodyAVelocity(value: () => { x: number, y: number }) {
+        this.desc.getBodyAVelocity = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get getBodyBVelocity(): () => { x: number, y: number } {
+        return this.desc.getBodyBVelocity;
+    }
+    set getBodyBVelocity(value: () => { x: number, y: number }) {
+        this.desc.getBodyBVelocity = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get applyBodyAImpulse(): (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void {
+        return this.desc.applyBodyAImpulse;
+    }
+    set applyBodyAImpulse(value: (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void) {
+        this.desc.applyBodyAImpulse = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    get applyBodyBImpulse(): (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void {
+        return this.desc.applyBodyBImpulse;
+    }
+    set applyBodyBImpulse(value: (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void) {
+        this.desc.applyBodyBImpulse = value;
+        if (this.server.springs[this.id]) {
+            this.server.springs[this.id] = this.desc;
+        }
+    }
+    destroy() {
+        delete this.server.springs[this.id];
+    }
+}
+
+/** The spring data needed for rendering */
+
+interface SimuloSpringInfo {
+    pointA: { x: number, y: number };
+    pointB: { x: number, y: number };
+}
+
+/** Hinges (axles) let bodies rotate around a shared point, bolts hold bodies together rigidly, and sliders only let body B move along an axis of body A. In Rapier, they're revolute, fixed and prismatic impulse joints. */
+type SimuloJointType = "hinge" | "bolt" | "slider";
+
+interface SimuloJointMotor {
+    /** Radians per second for hinges, units per second for sliders */
+    targetVelocity: number;
+    /** Radians for hinges, units along the axis for sliders. Only used if `stiffness` isn't 0. */
+    targetPosition: number;
+    stiffness: number;
+    damping: number;
+}
+
+interface SimuloJointDesc {
+    type: SimuloJointType;
+    bodyA: string;
+    bodyB: string;
+    localAnchorA: { x: number, y: number };
+    localAnchorB: { x: number, y: number };
+    /** Sliders only. Axis in body A's local space that body B slides along. */
+    axis?: { x: number, y: number };
+    /** Bolts only. Angle of body B relative to body A that the bolt holds. Defaults to their angle when the bolt is created. */
+    referenceAngle?: number;
+    /** Hinges and sliders only. Angle limits in radians for hinges, or distance limits along the axis for sliders. */
+    limits?: [min: number, max: number] | null;
+    /** Hinges and sliders only */
+    motor?: SimuloJointMotor | null;
+    /** Whether the two bodies can still collide with each other. Defaults to false. */
+    collideConnected?: boolean;
+}
+
+/** Interactive class for Simulo joint */
+class SimuloJoint {
+    readonly id: string;
+    private server: SimuloPhysicsServer;
+    constructor(server: SimuloPhysicsServer, id: string) {
+        this.id = id;
+        this.server = server;
+    }
+    private get desc(): SimuloJointDesc {
+        let desc = this.server.getJoint(this.id);
+        if (!desc) {
+            throw new Error('Joint `' + this.id + '` no longer exists');
+        }
+        return desc;
+    }
+    get type(): SimuloJointType {
+        return this.desc.type;
+    }
+    get bodyA(): string {
+        return this.desc.bodyA;
+    }
+    get bodyB(): string {
+        return this.desc.bodyB;
+    }
+    get localAnchorA(): { x: number, y: number } {
+        return this.desc.localAnchorA;
+    }
+    set localAnchorA(value: { x: number, y: number }) {
+        this.server.updateJoint(this.id, { localAnchorA: value });
+    }
+    get localAnchorB(): { x: number, y: number } {
+        return this.desc.localAnchorB;
+    }
+    set localAnchorB(value: { x: number, y: number }) {
+        this.server.updateJoint(this.id, { localAnchorB: value });
+    }
+    get limits(): [min: number, max: number] | null {
+        return this.desc.limits ?? null;
+    }
+    set limits(value: [min: number, max: number] | null) {
+        this.server.updateJoint(this.id, { limits: value });
+    }
+    get motor(): SimuloJointMotor | null {
+        return this.desc.motor ?? null;
+    }
+    set motor(value: SimuloJointMotor | null) {
+        this.server.updateJoint(this.id, { motor: value });
+    }
+    get collideConnected(): boolean {
+        return this.desc.collideConnected ?? false;
+    }
+    set collideConnected(value: boolean) {
+        this.server.updateJoint(this.id, { collideConnected: value });
+    }
+    destroy() {
+        this.server.removeJoint(this.id);
+    }
+}
+
+/** The joint data needed for rendering */
+
+interface SimuloJointInfo {
+    id: string;
+    type: SimuloJointType;
+    pointA: { x: number, y: number };
+    pointB: { x: number, y: number };
+}
+
+/** Pushes an object from a point on it every step, like a rocket engine or a hover fan */
+interface SimuloThrusterDesc {
+    /** ID of the object the thruster is attached to */
+    body: string;
+    /** Where the force is applied, in the object's local space */
+    localAnchor: { x: number, y: number };
+    /** Direction of the force in the object's local space, so it turns with the object. Doesn't need to be normalized. */
+    direction: { x: number, y: number };
+    /** Force in newtons */
+    strength: number;
+    /** Thrusters only push while enabled */
+    enabled: boolean;
+    /** Key that toggles the thruster, like `" "` or `"w"`, compared to `KeyboardEvent.key`. `null` if it can't be toggled with a key. */
+    key: string | null;
+}
+
+/** The thruster data needed for rendering */
+interface SimuloThrusterInfo {
+    id: string;
+    /** World space point the force is applied at */
+    point: { x: number, y: number };
+    /** World space direction of the force, normalized */
+    direction: { x: number, y: number };
+    enabled: boolean;
+}
+
+/** Radial fields pull objects towards their position like planets, directional fields push objects in a direction, and zero fields cancel out global gravity. */
+type SimuloGravityFieldType = "radial" | "directional" | "zero";
+
+/** How a field gets weaker away from its position. `linear` fades to nothing at the radius, and `inverse_square` is like real gravity, with `strength` reached at a distance of 1 and capped closer than that. */
+type SimuloGravityFalloff = "none" | "linear" | "inverse_square";
+
+/** Area that changes gravity for the objects in it, applied each step on top of global gravity */
+interface SimuloGravityFieldDesc {
+    type: SimuloGravityFieldType;
+    /** Center of the field in world space */
+    position: { x: number, y: number };
+    /** Objects further than this from `position` aren't affected */
+    radius: number;
+    /** Radial fields only. Acceleration towards `position`, negative pushes away. */
+    strength?: number;
+    /** Directional fields only. Acceleration in world space. */
+    direction?: { x: number, y: number };
+    /** Defaults to `none` */
+    falloff?: SimuloGravityFalloff;
+    /** Only affects objects on one of these collision layers. Affects every object if not set. */
+    layers?: string[];
+}
+
+/** Fired through `on("collision_start")` and `on("collision_stop")` */
+interface SimuloCollisionEvent {
+    /** ID of the first object */
+    objectA: string;
+    /** ID of the second object */
+    objectB: string;
+    /** World space contact point, or `null` if the objects aren't touching anymore */
+    point: { x: number, y: number } | null;
+    /** Speed of the objects relative to each other */
+    relativeSpeed: number;
+    /** Estimated impulse of the impact, from the speed along the contact normal and the masses of the objects. Always 0 for `collision_stop`. */
+    impulse: number;
+}
+
+interface BaseShapeData {
+    /** If none is provided, one will automatically be generated. If you provide this, it should always be in a container, there's no reason to supply one on root.
+     * 
+     * Good example of when to supply this: you are loading saved objects within a container.
+     * 
+     * Bad example of supplying this: you are creating a new object and giving it ID "ground". This is bad usage, IDs should always be like `/0`, `/34/1993`, etc. */
+    id?: string;
+    /** Container to create the object in, like `/3`. Defaults to root. Ignored if `id` is provided. */
+    container?: string;
+    name: string | undefined;
+    /** Path to a sound file for collisions. Relative to /assets/sounds/ */
+    sound: string | null;
+    /** Color number like 0xffffff */
+    color: number;
+    /** 0-1 alpha */
+    alpha: number;
+    /** Color number or null for no border */
+    border: number | null;
+    borderWidth: number | null;
+    borderScaleWithZoom: boolean;
+    image: string | null;
+    /** We sort shapes with this for almost everything, including rendering. Newer shapes get a higher Z Depth. At the start of a scene, IDs and Z Depths will be the same, but user interaction can change this.
+     * 
+     * Defaults to above every other object. */
+    zDepth?: number;
+    flipImage?: boolean;
+    /** Collision layers. Objects only collide if they share a layer, so objects with no layers don't collide with anything. Defaults to `["default"]`. */
+    layers?: string[];
+    position: { x: number, y: number },
+    /** Rotation in radians */
+    angle?: number,
+    isStatic: boolean,
+    friction: number,
+    restitution: number,
+    density: number,
+    /** Multiplies the effect of global gravity and gravity fields on this object. Defaults to 1, and 0 makes it float. */
+    gravityScale?: number,
+}
+
+/** One shape of a compound object. Unlike the `add*` methods, rectangle `width` and `height` are full sizes, same as in saved scenes.
+ * 
+ * Children use the color and material of the compound unless they set their own. */
+type SimuloCompoundChild = Exclude<SimuloSavedShape, { type: "compound" }> & {
+    /** Relative to the compound's position and angle */
+    position: { x: number, y: number },
+    /** Rotation in radians, relative to the compound's angle */
+    angle?: number,
+    color?: number,
+    alpha?: number,
+    border?: number | null,
+    borderWidth?: number | null,
+    friction?: number,
+    restitution?: number,
+    density?: number,
+};
+
+/** Properties of an object that can be changed after it's created with `setObjectProperties`. Sizes are in the same units as the `add*` methods, so rectangle `width` and `height` are half extents. */
+interface SimuloObjectProperties {
+    name: string | undefined;
+    sound: string | null;
+    color: number;
+    /** 0-1 alpha */
+    alpha: number;
+    border: number | null;
+    borderWidth: number | null;
+    borderScaleWithZoom: boolean;
+    image: string | null;
+    flipImage: boolean;
+    /** Use `bringToFront`, `sendToBack`, `raise` and `lower` to reorder objects relative to each other */
+    zDepth: number;
+    friction: number;
+    restitution: number;
+    density: number;
+    isStatic: boolean;
+    gravityScale: number;
+    position: { x: number, y: number };
+    /** Rotation in radians */
+    angle: number;
+    linearVelocity: { x: number, y: number };
+    angularVelocity: number;
+    /** Rectangles only. Half extent. */
+    width: number;
+    /** Rectangles only. Half extent. */
+    height: number;
+    /** Circles only */
+    radius: number;
+    /** Polygons only */
+    points: { x: number, y: number }[];
+}
+
+/** Which objects a query can find */
+interface SimuloQueryFilter {
+    /** Only find objects that share a layer with these. Finds objects on any layer if not set. */
+    layers?: string[];
+    /** IDs of objects to ignore, like the object a laser is coming from */
+    exclude?: string[];
+}
+
+interface SimuloRaycastHit {
+    /** ID of the object that was hit */
+    id: string;
+    point: { x: number, y: number };
+    /** Normal of the surface that was hit. Zero if the ray started inside the object. */
+    normal: { x: number, y: number };
+    /** Distance along the ray from its origin */
+    distance: number;
+}
+
+/** Shape to find overlapping objects with, in world space. Rectangle `width` and `height` are full sizes. */
+type SimuloQueryShape = Exclude<SimuloSavedShape, { type: "compound" }> & {
+    position: { x: number, y: number },
+    /** Rotation in radians */
+    angle?: number,
+};
+
+/** Copy of a whole world from `takeSnapshot`. Contents depend on the backend, so treat it as opaque. */
+interface SimuloPhysicsSnapshot {
+    /** Backend that took the snapshot */
+    backend: string;
+}
+
+/** Physics backend for Simulo. Tools and plugins should only talk to this interface, so backends can be swapped without breaking them.
+ * 
+ * Objects, springs, joints and containers are all referenced by Simulo IDs like `/3` or `/3/1`, never by backend handles. Any backend should pass `runConformanceSuite` in `conformance.ts`. */
+interface SimuloPhysicsServer {
+    /** Set this before calling `init`, or use `setGravity` to change it later */
+    gravity: { x: number, y: number };
+    setGravity(gravity: { x: number, y: number }): void;
+    /** Used for anything random the backend does, like colors of the starting objects. Set this before calling `init`, to a seeded random like `SimuloServerController.random.next` for replays to work. */
+    random: () => number;
+
+    init(): Promise<void>;
+    /** Advance the simulation by `dt` seconds (1/60 by default), and get what changed since the last step */
+    step(dt?: number): SimuloPhysicsStepInfo;
+
+    /** Listen to events like `collision_start` and `collision_stop` */
+    on(event: string, listener: Function): void;
+    off(event: string, listener: Function): void;
+
+    /** Get a unique ID in a container, like `getID("/3/")` for `/3/0` */
+    getID(container: string, absolute?: boolean): string;
+
+    // objects
+
+    /** `width` and `height` are half extents. Returns the ID of the new object. */
+    addRectangle(rectangle: BaseShapeData & { width: number, height: number }): string;
+    addCircle(circle: BaseShapeData & { radius: number }): string;
+    /** Outlines can be concave, but should throw an error if they intersect themselves. Shape content keeps the outline as it was given. */
+    addPolygon(polygon: BaseShapeData & { points: { x: number, y: number }[] }): string;
+    /** One object made of several shapes, like a car body or an L-shaped part. Returns the ID of the new object. */
+    addCompound(compound: BaseShapeData & { children: SimuloCompoundChild[] }): string;
+    removeObject(id: string): boolean;
+    removeObjects(ids: string[]): string[];
+    getObjectData(id: string): SimuloObjectData | null;
+    /** Change properties of an object and send its new shape content to clients. Throws if a size doesn't match the type of the object, like `radius` for a rectangle. Returns `false` if there is no object with that ID. */
+    setObjectProperties(id: string, properties: Partial<SimuloObjectProperties>): boolean;
+    /** Convert a world point to a point relative to an object's position and rotation */
+    getObjectLocalPoint(id: string, worldPoint: { x: number, y: number }): { x: number, y: number } | null;
+    /** Convert a point relative to an object's position and rotation to a world point */
+    getObjectWorldPoint(id: string, localPoint: { x: number, y: number }): { x: number, y: number } | null;
+    saveObject(id: string): SimuloSavedObject | null;
+    loadObject(saved: SimuloSavedObject, id?: string): string;
+
+    // containers
+
+    containers: { [id: string]: SimuloContainerData };
+    getContainerPrefix(container: string): string;
+    getParentContainer(id: string): string;
+    addContainer(name: string | undefined, parent?: string, id?: string): string;
+    getContainerObjects(container: string): string[];
+    moveContainer(container: string, offset: { x: number, y: number }): void;
+    removeContainer(container: string): void;
+    saveContainer(container: string): SimuloSavedGroup;
+    loadGroup(group: SimuloSavedGroup, parent?: string): string;
+    duplicateContainer(container: string, offset?: { x: number, y: number }): string;
+
+    // drawing order
+
+    /** Move an object above every other object */
+    bringToFront(id: string): boolean;
+    /** Move an object below every other object */
+    sendToBack(id: string): boolean;
+    /** Move an object above the object right above it */
+    raise(id: string): boolean;
+    /** Move an object below the object right below it */
+    lower(id: string): boolean;
+
+    // collision filtering
+
+    /** Change the collision layers of an object. Returns `false` if there is no object with that ID. */
+    setObjectLayers(id: string, layers: string[]): boolean;
+    /** Stop two objects from colliding with each other, or let them collide again if `noCollide` is false */
+    setNoCollide(objectA: string, objectB: string, noCollide?: boolean): void;
+    getNoCollidePairs(): [objectA: string, objectB: string][];
+
+    // springs
+
+    springs: { [id: string]: SimuloSpringDesc };
+    addSpring(spring: SimuloSpringDesc, id?: string): SimuloSpring;
+    /** Add a spring between two objects by ID. An end with a `null` body is fixed in the world, and its anchor is in world space. */
+    addObjectSpring(spring: Omit<SimuloSavedSpring, "id"> & { temporary?: boolean }, id?: string): SimuloSpring;
+    getSpringInfos(): SimuloSpringInfo[];
+
+    // joints
+
+    addJoint(desc: SimuloJointDesc, id?: string): SimuloJoint;
+    addHingeJoint(desc: Omit<SimuloJointDesc, "type">, id?: string): SimuloJoint;
+    addBoltJoint(desc: Omit<SimuloJointDesc, "type">, id?: string): SimuloJoint;
+    addSliderJoint(desc: Omit<SimuloJointDesc, "type">, id?: string): SimuloJoint;
+    getJoint(id: string): SimuloJointDesc | null;
+    updateJoint(id: string, changes: Partial<Omit<SimuloJointDesc, "type" | "bodyA" | "bodyB">>): void;
+    removeJoint(id: string): boolean;
+    getJointInfos(): SimuloJointInfo[];
+
+    // thrusters
+
+    /** Returns the ID of the new thruster */
+    addThruster(desc: SimuloThrusterDesc, id?: string): string;
+    getThruster(id: string): SimuloThrusterDesc | null;
+    /** Properties that are `undefined` in `changes` are left as they are */
+    updateThruster(id: string, changes: Partial<Omit<SimuloThrusterDesc, "body">>): boolean;
+    removeThruster(id: string): boolean;
+    /** IDs of the thrusters toggled by a key */
+    getThrustersWithKey(key: string): string[];
+    getThrusterInfos(): SimuloThrusterInfo[];
+
+    // particles
+
+    addParticles(particles: SimuloParticleDesc[]): void;
+    /** Returns how many particles were removed */
+    removeParticlesInRadius(center: { x: number, y: number }, radius: number): number;
+    clearParticles(): void;
+    getParticleCount(): number;
+    /** Current particles, with colors and radii included */
+    getParticleData(): SimuloParticleData;
+    /** Current particles, with velocities, for saving */
+    getParticles(): SimuloParticleDesc[];
+
+    // gravity fields
+
+    /** Returns the ID of the new field */
+    addGravityField(desc: SimuloGravityFieldDesc, id?: string): string;
+    getGravityField(id: string): SimuloGravityFieldDesc | null;
+    updateGravityField(id: string, changes: Partial<SimuloGravityFieldDesc>): boolean;
+    removeGravityField(id: string): boolean;
+    /** All fields with their IDs */
+    getGravityFields(): (SimuloGravityFieldDesc & { id: string })[];
+
+    // queries
+
+    /** ID of an object that contains the point, if any. If objects overlap, use `getTopmostObjectAtPoint` to get the one on top. */
+    getObjectAtPoint(x: number, y: number): string | null;
+    /** IDs of all objects that contain the point, from top to bottom by Z Depth */
+    getObjectsAtPoint(x: number, y: number, filter?: SimuloQueryFilter): string[];
+    /** ID of the object with the highest Z Depth that contains the point, if any */
+    getTopmostObjectAtPoint(x: number, y: number, filter?: SimuloQueryFilter): string | null;
+    /** First object hit by a ray, if any. `direction` doesn't need to be normalized. */
+    raycast(origin: { x: number, y: number }, direction: { x: number, y: number }, maxDistance: number, filter?: SimuloQueryFilter): SimuloRaycastHit | null;
+    /** Every object hit by a ray, closest first. Objects are only hit once, even if the ray goes through them several times. */
+    raycastAll(origin: { x: number, y: number }, direction: { x: number, y: number }, maxDistance: number, filter?: SimuloQueryFilter): SimuloRaycastHit[];
+    /** IDs of objects that overlap an axis-aligned rectangle, like a selection box */
+    queryRegion(min: { x: number, y: number }, max: { x: number, y: number }, filter?: SimuloQueryFilter): string[];
+    /** IDs of objects that overlap a shape */
+    queryShape(shape: SimuloQueryShape, filter?: SimuloQueryFilter): string[];
+
+    // rendering data
+
+    getShapeContents(): { [id: string]: ShapeContentData };
+    getShapeTransforms(): { [id: string]: ShapeTransformData };
+
+    // serialization
+
+    saveScene(details: SimuloItemDetails): SimuloScene;
+    loadScene(scene: SimuloScene): void;
+    /** Copy the whole world to restore later, like for rewinding. Much faster than `saveScene`, but only the same backend can restore it. Temporary springs aren't included. */
+    takeSnapshot(): SimuloPhysicsSnapshot;
+    /** Put the world back exactly how it was when the snapshot was taken. Temporary springs are kept if their objects still exist.
+     * 
+     * Shapes can appear or disappear without being in a step delta, so clients should be sent the whole world again afterwards. */
+    restoreSnapshot(snapshot: SimuloPhysicsSnapshot): void;
+}
+
+export default SimuloPhysicsServer;
+export { SimuloSpring, SimuloJoint };
+export type { ShapeContentData, Polygon, Rectangle, Circle, CompoundChildContent, Compound, SimuloCompoundChild, SimuloObjectProperties, SimuloQueryFilter, SimuloRaycastHit, SimuloQueryShape, ShapeTransformData, SimuloPhysicsStepInfo, SimuloSpringDesc, SimuloSpringInfo, SimuloJointType, SimuloJointMotor, SimuloJointDesc, SimuloJointInfo, SimuloThrusterDesc, SimuloThrusterInfo, SimuloGravityFieldType, SimuloGravityFalloff, SimuloGravityFieldDesc, SimuloParticleData, SimuloParticleDesc, SimuloCollisionEvent, SimuloPhysicsSnapshot, BaseShapeData };
@@ -2,261 +2,49 @@ import RAPIER from "@dimforge/rapier2d-compat";
 import type Rapier from "@dimforge/rapier2d-compat";
 
 import randomColor from "../randomColor";
+import decomposePolygon from "../decomposePolygon";
 
 import SimuloObjectData from "../SimuloObjectData";
-
-interface ShapeContentData {
-    id: string;
-    type: "rectangle" | "circle" | "polygon" | "line";
-    color: number;
-    /** 0-1 alpha */
-    alpha: number;
-    border: number | null;
-    borderWidth: number | null;
-}
-
-interface Polygon extends ShapeContentData {
-    type: "polygon";
-    points: [x: number, y: number][];
-}
-
-interface Rectangle extends ShapeContentData {
-    type: "rectangle";
-    width: number;
-    height: number;
-}
-
-interface Circle extends ShapeContentData {
-    type: "circle";
-    radius: number;
-    circleCake: boolean;
-}
-
-/** Translation and rotation to apply to a shape. Scale is not included in this (and is instead in `ShapeContentData`) since it rarely changes, unlike position and rotation, which usually change every frame. */
-interface ShapeTransformData {
-    x: number;
-    y: number;
-    angle: number;
-}
-
-interface SimuloPhysicsStepInfo {
-    delta: {
-        /** Shape content that has changed since last step. */
-        shapeContent: { [id: string]: ShapeContentData };
-
-        /** New positioning and rotation of shape contents. */
-        shapeTransforms: { [id: string]: ShapeTransformData };
-    };
-
-    ms: number;
-
-    /** Spring rendering data */
-    springs: SimuloSpringInfo[];
-}
-
-/** Simulo creates fake spring joint with `applyImpulseAtPoint` on two bodies.
- * 
- * Since you provide your own functions like `getBodyAPosition`, this is general-purpose, and you can do things like attach one end to a mouse cursor. */
-
-interface SimuloSpringDesc {
-    getBodyAPosition: () => Rapier.Vector2;
-    getBodyBPosition: () => Rapier.Vector2;
-
-    getBodyARotation: () => number;
-    getBodyBRotation: () => number;
-
-    getBodyAVelocity: () => Rapier.Vector2;
-    getBodyBVelocity: () => Rapier.Vector2;
-
-    applyBodyAImpulse: (impulse: Rapier.Vector2, worldPoint: Rapier.Vector2) => void;
-    applyBodyBImpulse: (impulse: Rapier.Vector2, worldPoint: Rapier.Vector2) => void;
-
-    localAnchorA: Rapier.Vector2;
-    localAnchorB: Rapier.Vector2;
-
-    /** Multiplier of spring impulse */
-    stiffness: number;
-
-    /** Dampens spring, stopping it from infinitely oscillating */
-    damping: number;
-
-    /** Target length is also known as rest length. We chose to call it target length because it's more descriptive of how it's used. */
-    targetLength: number;
-}
-
-/** Interactive class for Simulo spring */
-class SimuloSpring {
-    readonly id: string;
-    private desc: SimuloSpringDesc;
-    private server: SimuloPhysicsServerRapier;
-    constructor(server: SimuloPhysicsServerRapier, desc: SimuloSpringDesc, id: string) {
-        this.id = id;
-        this.desc = desc;
-        this.server = server;
-    }
-    get targetLength(): number {
-        return this.desc.targetLength;
-    }
-    set targetLength(value: number) {
-        this.desc.targetLength = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get damping(): number {
-        return this.desc.damping;
-    }
-    set damping(value: number) {
-        this.desc.damping = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get stiffness(): number {
-        return this.desc.stiffness;
-    }
-    set stiffness(value: number) {
-        this.desc.stiffness = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get localAnchorA(): { x: number, y: number } {
-        return this.desc.localAnchorA;
-    }
-    set localAnchorA(value: { x: number, y: number }) {
-        this.desc.localAnchorA = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get localAnchorB(): { x: number, y: number } {
-        return this.desc.localAnchorB;
-    }
-    set localAnchorB(value: { x: number, y: number }) {
-        this.desc.localAnchorB = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get getBodyAPosition(): () => { x: number, y: number } {
-        return this.desc.getBodyAPosition;
-    }
-    set getBodyAPosition(value: () => { x: number, y: number }) {
-        this.desc.getBodyAPosition = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get getBodyBPosition(): () => { x: number, y: number } {
-        return this.desc.getBodyBPosition;
-    }
-    set getBodyBPosition(value: () => { x: number, y: number }) {
-        this.desc.getBodyBPosition = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get getBodyARotation(): () => number {
-        return this.desc.getBodyARotation;
-    }
-    set getBodyARotation(value: () => number) {
-        this.desc.getBodyARotation = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get getBodyBRotation(): () => number {
-        return this.desc.getBodyBRotation;
-    }
-    set getBodyBRotation(value: () => number) {
-        this.desc.getBodyBRotation = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get getBodyAVelocity(): () => { x: number, y: number } {
-        return this.desc.getBodyAVelocity;
-    }
-    set getBodyAVelocity(value: () => { x: number, y: number }) {
-        this.desc.getBodyAVelocity = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get getBodyBVelocity(): () => { x: number, y: number } {
-        return this.desc.getBodyBVelocity;
-    }
-    set getBodyBVelocity(value: () => { x: number, y: number }) {
-        this.desc.getBodyBVelocity = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get applyBodyAImpulse(): (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void {
-        return this.desc.applyBodyAImpulse;
-    }
-    set applyBodyAImpulse(value: (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void) {
-        this.desc.applyBodyAImpulse = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    get applyBodyBImpulse(): (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void {
-        return this.desc.applyBodyBImpulse;
-    }
-    set applyBodyBImpulse(value: (impulse: { x: number, y: number }, worldPoint: { x: number, y: number }) => void) {
-        this.desc.applyBodyBImpulse = value;
-        if (this.server.springs[this.id]) {
-            this.server.springs[this.id] = this.desc;
-        }
-    }
-    destroy() {
-        delete this.server.springs[this.id];
-    }
+import type SimuloContainerData from "../SimuloContainerData";
+import type SimuloItemDetails from "../SimuloItemDetails";
+import type SimuloScene from "../SimuloScene";
+import type { SimuloSavedObject, SimuloSavedSpring, SimuloSavedJoint, SimuloSavedThruster, SimuloSavedGravityField, SimuloSavedGroup } from "../SimuloScene";
+import { SCENE_SCHEMA_VERSION, migrateScene } from "../SimuloScene";
+import type SimuloPhysicsServer from "../SimuloPhysicsServer";
+import type { ShapeContentData, Polygon, Rectangle, Circle, CompoundChildContent, Compound, SimuloCompoundChild, SimuloObjectProperties, SimuloQueryFilter, SimuloRaycastHit, SimuloQueryShape, ShapeTransformData, SimuloPhysicsStepInfo, SimuloSpringDesc, SimuloSpringInfo, SimuloJointType, SimuloJointMotor, SimuloJointDesc, SimuloJointInfo, SimuloThrusterDesc, SimuloThrusterInfo, SimuloGravityFieldDesc, SimuloParticleData, SimuloParticleDesc, SimuloCollisionEvent, SimuloPhysicsSnapshot, BaseShapeData } from "../SimuloPhysicsServer";
+import { SimuloSpring, SimuloJoint } from "../SimuloPhysicsServer";
+
+/** Set a field by its key, with the value checked against the field's type */
+function assign<T, K extends keyof T>(target: T, key: K, value: T[K]) {
+    target[key] = value;
 }
 
-/** The spring data needed for rendering */
-
-interface SimuloSpringInfo {
-    pointA: { x: number, y: number };
-    pointB: { x: number, y: number };
+/** Rapier serializes the world itself, but not what we keep next to it, so that's copied here. Rapier objects are stored by handle, since handles stay the same in the restored world. */
+interface RapierSnapshot extends SimuloPhysicsSnapshot {
+    backend: "rapier";
+    world: Uint8Array;
+    bodies: { [id: string]: { handle: number, data: SimuloObjectData } };
+    colliders: number[];
+    joints: { [id: string]: { desc: SimuloJointDesc, handle: number } };
+    particles: { handle: number, radius: number, color: number }[];
+    springs: { [id: string]: SimuloSpringDesc };
+    /** Everything else, as JSON */
+    state: string;
 }
 
-interface BaseShapeData {
-    /** If none is provided, one will automatically be generated. If you provide this, it should always be in a container, there's no reason to supply one on root.
-     * 
-     * Good example of when to supply this: you are loading saved objects within a container.
-     * 
-     * Bad example of supplying this: you are creating a new object and giving it ID "ground". This is bad usage, IDs should always be like `/0`, `/34/1993`, etc. */
-    id?: string;
-    name: string | undefined;
-    /** Path to a sound file for collisions. Relative to /assets/sounds/ */
-    sound: string | null;
-    /** Color number like 0xffffff */
-    color: number;
-    /** 0-1 alpha */
-    alpha: number;
-    /** Color number or null for no border */
-    border: number | null;
-    borderWidth: number | null;
-    borderScaleWithZoom: boolean;
-    image: string | null;
-    /** We sort shapes with this for almost everything, including rendering. Newer shapes get a higher Z Depth. At the start of a scene, IDs and Z Depths will be the same, but user interaction can change this. */
-    zDepth: number;
-    flipImage?: boolean;
-    position: { x: number, y: number },
-    isStatic: boolean,
-    friction: number,
-    restitution: number,
-    density: number,
-}
+/** Simulo physics backend using Rapier, with springs and other things Rapier doesn't have built in */
 
-class SimuloPhysicsServerRapier {
+class SimuloPhysicsServerRapier implements SimuloPhysicsServer {
     world: Rapier.World | null = null;
+    /** Collects collision events from Rapier each step, which we then emit with `SimuloCollisionEvent` data */
+    eventQueue: Rapier.EventQueue | null = null;
     listeners: { [key: string]: Function[] } = {};
     colliders: Rapier.Collider[] = [];
+    /** Rigid bodies by their Simulo ID */
+    bodies: { [id: string]: Rapier.RigidBody } = {};
     changedContents: { [id: string]: ShapeContentData } = {};
+    /** IDs removed since last step, sent to clients so they can destroy the shapes */
+    removedContents: string[] = [];
 
     private emit(event: string, data: any) {
         if (this.listeners[event]) {
@@ -293,16 +81,214 @@ class SimuloPhysicsServerRapier {
         return id.toString();
     }
 
+    /** Containers by ID. The root container `/` always exists and isn't in here. */
+    containers: { [id: string]: SimuloContainerData } = {};
+
+    /** Prefix used for IDs of children in a container, like `/3/` for `/3`. Throws if the container doesn't exist. */
+    getContainerPrefix(container: string): string {
+        if (container === "/") return "/";
+        if (!this.containers[container]) {
+            throw new Error('Container `' + container + '` doesn\'t exist');
+        }
+        return container + "/";
+    }
+
+    /** Container an ID is in, like `/3` for `/3/1`, or `/` for `/3` */
+    getParentContainer(id: string): string {
+        let index = id.lastIndexOf("/");
+        if (index <= 0) return "/";
+        return id.slice(0, index);
+    }
+
+    /** Create a container, optionally nested in another one. Returns its ID. */
+    addContainer(name: string | undefined, parent: string = "/", id?: string): string {
+        id = id ?? this.getID(this.getContainerPrefix(parent));
+        this.containers[id] = { id, name };
+        return id;
+    }
+
+    private isInContainer(id: string, container: string): boolean {
+        return container === "/" || id === container || id.startsWith(container + "/");
+    }
+
+    /** IDs of objects in a container, including ones in nested containers */
+    getContainerObjects(container: string): string[] {
+        this.getContainerPrefix(container);
+        return Object.keys(this.bodies).filter((id) => this.isInContainer(id, container));
+    }
+
+    /** Move everything in a container by an offset */
+    moveContainer(container: string, offset: { x: number, y: number }) {
+        this.getContainerObjects(container).forEach((id) => {
+            let body = this.bodies[id];
+            let translation = body.translation();
+            body.setTranslation({ x: translation.x + offset.x, y: translation.y + offset.y }, true);
+        });
+        // springs in the container that are fixed in the world should move too
+        Object.keys(this.springs).forEach((id) => {
+            if (!this.isInContainer(id, container)) return;
+            let spring = this.springs[id];
+            if (spring.bodyA === null) {
+                spring.localAnchorA = { x: spring.localAnchorA.x + offset.x, y: spring.localAnchorA.y + offset.y };
+            }
+            if (spring.bodyB === null) {
+                spring.localAnchorB = { x: spring.localAnchorB.x + offset.x, y: spring.localAnchorB.y + offset.y };
+            }
+        });
+    }
+
+    /** Remove a container along with all the objects, springs and containers in it */
+    removeContainer(container: string) {
+        if (container === "/") { throw new Error('Can\'t remove the root container'); }
+        this.removeObjects(this.getContainerObjects(container));
+        Object.keys(this.springs).forEach((id) => {
+            if (this.isInContainer(id, container)) {
+                delete this.springs[id];
+            }
+        });
+        Object.keys(this.joints).forEach((id) => {
+            if (this.isInContainer(id, container)) {
+                this.removeJoint(id);
+            }
+        });
+        Object.keys(this.containers).forEach((id) => {
+            if (this.isInContainer(id, container)) {
+                delete this.containers[id];
+                delete this.currentIDs[id + "/"];
+            }
+        });
+    }
+
+    /** Save a container and everything in it, to be loaded again with `loadGroup`. Springs are only included if both ends are in the container or fixed in the world. */
+    saveContainer(container: string): SimuloSavedGroup {
+        if (container === "/") { throw new Error('Use `saveScene` to save the root container'); }
+        this.getContainerPrefix(container);
+        let containers = [this.containers[container], ...Object.values(this.containers).filter((data) => data.id !== container && this.isInContainer(data.id, container))];
+        let currentIDs: { [container: string]: number } = {};
+        containers.forEach((data) => {
+            if (this.currentIDs[data.id + "/"] !== undefined) {
+                currentIDs[data.id + "/"] = this.currentIDs[data.id + "/"];
+            }
+        });
+        let objects: SimuloSavedObject[] = [];
+        this.getContainerObjects(container).forEach((id) => {
+            let saved = this.saveObject(id);
+            if (saved) objects.push(saved);
+        });
+        let inside = (body: string | null | undefined) => body === null || (body !== undefined && this.isInContainer(body, container));
+        let springs = this.saveSprings().filter((spring) => inside(spring.bodyA) && inside(spring.bodyB));
+        let joints = this.saveJoints().filter((joint) => inside(joint.bodyA) && inside(joint.bodyB));
+        let noCollide = this.getNoCollidePairs().filter((pair) => inside(pair[0]) && inside(pair[1]));
+        let thrusters = this.saveThrusters().filter((thruster) => inside(thruster.body));
+        return {
+            containers: containers.map((data) => ({ ...data })),
+            currentIDs,
+            objects,
+            springs,
+            joints,
+            noCollide,
+            thrusters,
+        };
+    }
+
+    /** Load a saved group into a new container in `parent`, giving everything in it new IDs so nothing collides with existing objects. Returns the ID of the new container. */
+    loadGroup(group: SimuloSavedGroup, parent: string = "/"): string {
+        let from = group.containers[0].id;
+        let to = this.addContainer(group.containers[0].name, parent);
+        let remap = (id: string) => {
+            if (id === from) return to;
+            if (id.startsWith(from + "/")) return to + id.slice(from.length);
+            return id;
+        };
+
+        group.containers.slice(1).forEach((data) => {
+            this.addContainer(data.name, remap(this.getParentContainer(data.id)), remap(data.id));
+        });
+        Object.keys(group.currentIDs).forEach((container) => {
+            this.currentIDs[remap(container.slice(0, -1)) + "/"] = group.currentIDs[container];
+        });
+        group.objects.forEach((saved) => {
+            let id = remap(saved.data.id);
+            this.loadObject({ ...saved, data: { ...saved.data, id } }, id);
+        });
+        group.springs.forEach((spring) => {
+            let id = remap(spring.id);
+            this.addObjectSpring({
+                ...spring,
+                bodyA: spring.bodyA !== null ? remap(spring.bodyA) : null,
+                bodyB: spring.bodyB !== null ? remap(spring.bodyB) : null,
+            }, id !== spring.id ? id : this.getID(this.getContainerPrefix(to)));
+        });
+        group.joints.forEach((joint) => {
+            let id = remap(joint.id);
+            let { id: _, ...desc } = joint;
+            this.addJoint({
+                ...desc,
+                bodyA: remap(joint.bodyA),
+                bodyB: remap(joint.bodyB),
+            }, id !== joint.id ? id : this.getID(this.getContainerPrefix(to)));
+        });
+        group.noCollide.forEach((pair) => {
+            this.setNoCollide(remap(pair[0]), remap(pair[1]));
+        });
+        group.thrusters.forEach((thruster) => {
+            let id = remap(thruster.id);
+            let { id: _, ...desc } = thruster;
+            this.addThruster({ ...desc, body: remap(thruster.body) }, id !== thruster.id ? id : this.getID(this.getContainerPrefix(to)));
+        });
+        return to;
+    }
+
+    /** Copy a container and everything in it into a new container next to it, optionally offset. Returns the ID of the copy. */
+    duplicateContainer(container: string, offset: { x: number, y: number } = { x: 0, y: 0 }): string {
+        let copy = this.loadGroup(this.saveContainer(container), this.getParentContainer(container));
+        this.moveContainer(copy, offset);
+        return copy;
+    }
+
     /** Simulo uses virtual springs with impulses applied each frame, since Rapier doesn't have built-in springs */
     springs: { [id: string]: SimuloSpringDesc } = {};
 
     /** Add a spring */
-    addSpring(spring: SimuloSpringDesc): SimuloSpring {
-        let id = this.getID("/");
+    addSpring(spring: SimuloSpringDesc, id: string = this.getID("/")): SimuloSpring {
         this.springs[id] = spring;
         return new SimuloSpring(this, spring, id);
     }
 
+    /** Add a spring between two objects by ID. An end with a `null` body is fixed in the world, and its anchor is in world space. */
+    addObjectSpring(spring: Omit<SimuloSavedSpring, "id"> & { temporary?: boolean }, id?: string): SimuloSpring {
+        let idA = spring.bodyA;
+        let idB = spring.bodyB;
+        if ((idA !== null && !this.bodies[idA]) || (idB !== null && !this.bodies[idB])) {
+            throw new Error('Spring is attached to an object that doesn\'t exist');
+        }
+        // bodies are looked up every time instead of kept, since restoring a snapshot replaces them
+        let getBodyA = () => idA !== null ? this.bodies[idA] : undefined;
+        let getBodyB = () => idB !== null ? this.bodies[idB] : undefined;
+        return this.addSpring({
+            getBodyAPosition: () => getBodyA()?.translation() ?? { x: 0, y: 0 },
+            getBodyBPosition: () => getBodyB()?.translation() ?? { x: 0, y: 0 },
+            getBodyARotation: () => getBodyA()?.rotation() ?? 0,
+            getBodyBRotation: () => getBodyB()?.rotation() ?? 0,
+            getBodyAVelocity: () => getBodyA()?.linvel() ?? { x: 0, y: 0 },
+            getBodyBVelocity: () => getBodyB()?.linvel() ?? { x: 0, y: 0 },
+            applyBodyAImpulse: (impulse, worldPoint) => {
+                getBodyA()?.applyImpulseAtPoint(impulse, worldPoint, true);
+            },
+            applyBodyBImpulse: (impulse, worldPoint) => {
+                getBodyB()?.applyImpulseAtPoint(impulse, worldPoint, true);
+            },
+            localAnchorA: { ...spring.localAnchorA },
+            localAnchorB: { ...spring.localAnchorB },
+            stiffness: spring.stiffness,
+            damping: spring.damping,
+            targetLength: spring.targetLength,
+            bodyA: spring.bodyA,
+            bodyB: spring.bodyB,
+            temporary: spring.temporary,
+        }, id);
+    }
+
     getShapeContent(collider: Rapier.Collider): ShapeContentData | null {
         let shape = collider.shape;
         let parent = collider.parent();
@@ -318,8 +304,45 @@ class SimuloPhysicsServerRapier {
             border: border,
             id: bodyData.id,
             borderWidth: bodyData.borderWidth,
+            zDepth: bodyData.zDepth,
         };
 
+        let children = this.compoundChildren[bodyData.id];
+        if (children) {
+            return {
+                ...baseShape,
+                type: "compound",
+                children: children.map((child) => {
+                    let childBase = {
+                        color: child.color!,
+                        alpha: child.alpha!,
+                        border: child.border!,
+                        borderWidth: child.borderWidth!,
+                        x: child.position.x,
+                        y: child.position.y,
+                        angle: child.angle!,
+                    };
+                    switch (child.type) {
+                        case "rectangle":
+                            return { ...childBase, type: "rectangle", width: child.width, height: child.height };
+                        case "circle":
+                            return { ...childBase, type: "circle", radius: child.radius, circleCake: false };
+                        case "polygon":
+                            return { ...childBase, type: "polygon", points: child.points.map((point) => [point.x, point.y]) };
+                    }
+                }) as CompoundChildContent[],
+            } as Compound;
+        }
+
+        let outline = this.polygonOutlines[bodyData.id];
+        if (outline) {
+            return {
+                ...baseShape,
+                type: "polygon",
+                points: outline.map((point) => [point.x, point.y]),
+            } as Polygon;
+        }
+
         switch (shape.type) {
             case RAPIER.ShapeType.Cuboid:
                 let cuboid = shape as Rapier.Cuboid;
@@ -381,15 +404,78 @@ class SimuloPhysicsServerRapier {
         return transforms;
     }
 
+    /** Bodies that moved less than this (in position or angle) since their last sent transform are left out of step deltas. */
+    transformEpsilon: number = 0.0001;
+    /** Every this many steps, the step delta includes all transforms, so clients can't drift forever. `0` disables keyframes. */
+    keyframeInterval: number = 300;
+    private stepCount = 0;
+    /** Last transforms that were sent in a step delta */
+    private sentTransforms: { [id: string]: ShapeTransformData } = {};
+    /** IDs of bodies that were sleeping at the last step */
+    private sleepingBodies: Set<string> = new Set();
+
+    /** Transforms of bodies that moved more than `transformEpsilon` or woke up since the last delta. If `full` is true, every transform is returned. */
+    getShapeTransformsDelta(full: boolean = false): { [id: string]: ShapeTransformData } {
+        let transforms: { [id: string]: ShapeTransformData } = {};
+        Object.keys(this.bodies).forEach((id) => {
+            let body = this.bodies[id];
+            let previous = this.sentTransforms[id];
+            let sleeping = body.isSleeping();
+            let wasSleeping = this.sleepingBodies.has(id);
+            if (sleeping) {
+                this.sleepingBodies.add(id);
+            }
+            else {
+                this.sleepingBodies.delete(id);
+            }
+            // sleeping bodies can't move, so we don't even need to read their transform
+            if (!full && previous && sleeping && wasSleeping) return;
+
+            let translation = body.translation();
+            let transform: ShapeTransformData = {
+                x: translation.x,
+                y: translation.y,
+                angle: body.rotation(),
+            };
+            let woke = wasSleeping && !sleeping;
+            let moved = !previous ||
+                Math.abs(transform.x - previous.x) > this.transformEpsilon ||
+                Math.abs(transform.y - previous.y) > this.transformEpsilon ||
+                Math.abs(transform.angle - previous.angle) > this.transformEpsilon;
+            if (full || woke || moved) {
+                transforms[id] = transform;
+                this.sentTransforms[id] = transform;
+            }
+        });
+        return transforms;
+    }
+
     /** There is no constructor, but that's fine since you can set this before calling `init` */
     gravity: { x: number; y: number } = { x: 0, y: -9.81 };
 
+    random: () => number = Math.random;
+
+    setGravity(gravity: { x: number, y: number }) {
+        if (!this.world) { throw new Error('init world first'); }
+        this.gravity = { x: gravity.x, y: gravity.y };
+        this.world.gravity = new RAPIER.Vector2(gravity.x, gravity.y);
+        // sleeping bodies don't notice gravity changing
+        this.wakeUpAll();
+    }
+
+    private wakeUpAll() {
+        Object.values(this.bodies).forEach((body) => {
+            body.wakeUp();
+        });
+    }
+
     async init() {
         await RAPIER.init();
 
         let gravity = new RAPIER.Vector2(this.gravity.x, this.gravity.y);
         let world = new RAPIER.World(gravity);
         this.world = world;
+        this.eventQueue = new RAPIER.EventQueue(true);
 
         this.world.maxVelocityIterations = 4;
         this.world.maxVelocityFrictionIterations =
@@ -402,11 +488,10 @@ class SimuloPhysicsServerRapier {
             alpha: 1,
             border: null,
             name: 'joe',
-            sound: 'test',
+            sound: 'ground.wav',
             borderWidth: 1,
             borderScaleWithZoom: true,
             image: null,
-            zDepth: 0,
             position: { x: 0, y: -510 },
             isStatic: true,
             friction: 0.5,
@@ -416,15 +501,14 @@ class SimuloPhysicsServerRapier {
 
         let bodyA = this.addRectangle({
             width: 5, height: 1,
-            color: randomColor(0, 1, 0.5, 0.8, 0.8, 1),
+            color: randomColor(this.random),
             alpha: 1,
             border: null,
             name: 'joe',
-            sound: 'test',
+            sound: 'impact.wav',
             borderWidth: 1,
             borderScaleWithZoom: true,
             image: null,
-            zDepth: 0,
             position: { x: -3, y: 10 },
             isStatic: false,
             friction: 0.5,
@@ -434,15 +518,14 @@ class SimuloPhysicsServerRapier {
 
         let bodyB = this.addRectangle({
             width: 1, height: 1,
-            color: randomColor(0, 1, 0.5, 0.8, 0.8, 1),
+            color: randomColor(this.random),
             alpha: 1,
             border: null,
             name: 'joe',
-            sound: 'test',
+            sound: 'impact.wav',
             borderWidth: 1,
             borderScaleWithZoom: true,
             image: null,
-            zDepth: 0,
             position: { x: 5, y: 5 },
             isStatic: false,
             friction: 0.5,
@@ -452,15 +535,14 @@ class SimuloPhysicsServerRapier {
 
         let bodyC = this.addCircle({
             radius: 3,
-            color: randomColor(0, 1, 0.5, 0.8, 0.8, 1),
+            color: randomColor(this.random),
             alpha: 1,
             border: null,
             name: 'joe',
-            sound: 'test',
+            sound: 'impact.wav',
             borderWidth: 1,
             borderScaleWithZoom: true,
             image: null,
-            zDepth: 0,
             position: { x: 0, y: 0 },
             isStatic: false,
             friction: 0.5,
@@ -469,176 +551,1368 @@ class SimuloPhysicsServerRapier {
         });
     }
 
-    /** multiple gon */
+    /** Create a rigid body with Simulo object data and attach colliders to it. Used by all the `add*` methods. Returns the ID of the object.
+     * 
+     * Colliders use the material of `shape`, unless `materials` has one for them at the same index. */
+    private createBody(shape: BaseShapeData, colliderDescs: Rapier.ColliderDesc[], materials?: { friction: number, restitution: number, density: number }[]): string {
+        if (!this.world) { throw new Error('init world first'); }
+
+        let id = shape.id ?? this.getID(this.getContainerPrefix(shape.container ?? "/"));
+        let zDepth = shape.zDepth ?? this.highestZDepth + 1;
+        this.highestZDepth = Math.max(this.highestZDepth, zDepth);
+        this.lowestZDepth = Math.min(this.lowestZDepth, zDepth);
+
+        let bodyDesc = shape.isStatic ? RAPIER.RigidBodyDesc.fixed() : RAPIER.RigidBodyDesc.dynamic();
+        bodyDesc = bodyDesc.setTranslation(
+            shape.position.x,
+            shape.position.y
+        ).setRotation(shape.angle ?? 0).setGravityScale(shape.gravityScale ?? 1);
+
+        let data: SimuloObjectData = {
+            id,
+            color: shape.color,
+            alpha: shape.alpha,
+            border: shape.border,
+            name: shape.name,
+            sound: shape.sound,
+            borderWidth: shape.borderWidth,
+            borderScaleWithZoom: shape.borderScaleWithZoom,
+            image: shape.image,
+            zDepth,
+            flipImage: shape.flipImage,
+            layers: [...(shape.layers ?? ["default"])],
+        };
+        bodyDesc.setUserData(data);
+        // before creating anything, since this throws if there are too many layers
+        let collisionGroups = this.getCollisionGroups(data.layers);
+
+        let body = this.world.createRigidBody(bodyDesc);
+        this.bodies[id] = body;
+        this.creationOrder[id] = this.objectsCreated++;
+
+        let colliders = colliderDescs.map((colliderDesc, i) => {
+            let material = materials?.[i] ?? shape;
+            colliderDesc = colliderDesc.setRestitution(material.restitution).setFriction(material.friction).setDensity(material.density).setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS).setCollisionGroups(collisionGroups);
+            return this.world!.createCollider(colliderDesc, body);
+        });
+
+        this.colliders.push(...colliders);
+        let content = this.getShapeContent(colliders[0]);
+        if (content) {
+            this.changedContents[id] = content;
+        }
+
+        return id;
+    }
+
+    /** Outlines of polygons by ID. Concave polygons are made of several convex colliders, so we keep the outline to render and save them. */
+    private polygonOutlines: { [id: string]: { x: number, y: number }[] } = {};
+
+    /** multiple gon. Concave outlines are split into several convex colliders on one body, and outlines that intersect themselves throw an error. */
     addPolygon(polygon: BaseShapeData & {
         points: { x: number, y: number }[],
     }) {
         if (!this.world) { throw new Error('init world first'); }
 
-        let id = polygon.id ?? this.getID("/");
+        let colliderDescs = this.createPolygonColliderDescs(polygon.points);
 
-        let bodyDesc = polygon.isStatic ? RAPIER.RigidBodyDesc.fixed() : RAPIER.RigidBodyDesc.dynamic();
-
-        bodyDesc = bodyDesc.setTranslation(
-            polygon.position.x,
-            polygon.position.y
-        );
+        let id = polygon.id ?? this.getID(this.getContainerPrefix(polygon.container ?? "/"));
+        this.polygonOutlines[id] = polygon.points.map((point) => ({ x: point.x, y: point.y }));
+        return this.createBody({ ...polygon, id }, colliderDescs);
+    }
 
-        bodyDesc.setUserData({
-            id,
-            color: polygon.color,
-            alpha: polygon.alpha,
-            border: polygon.border,
-            name: polygon.name,
-            sound: polygon.sound,
-            borderWidth: polygon.borderWidth,
-            borderScaleWithZoom: polygon.borderScaleWithZoom,
-            image: polygon.image,
-            zDepth: polygon.zDepth,
+    /** Bit of each collision layer in Rapier interaction groups. Rapier only has 16 bits, so at most 16 layers can be used at once. */
+    private layerBits: { [layer: string]: number } = {};
+
+    /** Interaction groups for colliders with these layers. Membership and filter are the same, so colliders collide if they share a layer. */
+    private getCollisionGroups(layers: string[]): number {
+        let bits = 0;
+        layers.forEach((layer) => {
+            if (this.layerBits[layer] === undefined) {
+                let used = Object.keys(this.layerBits).length;
+                if (used >= 16) {
+                    throw new Error('Too many collision layers, Rapier supports up to 16');
+                }
+                this.layerBits[layer] = used;
+            }
+            bits |= 1 << this.layerBits[layer];
         });
+        return ((bits << 16) | bits) >>> 0;
+    }
 
-        let body = this.world.createRigidBody(bodyDesc);
+    setObjectLayers(id: string, layers: string[]): boolean {
+        let body = this.bodies[id];
+        if (!body) return false;
+        let collisionGroups = this.getCollisionGroups(layers);
+        (body.userData as SimuloObjectData).layers = [...layers];
+        for (let i = 0; i < body.numColliders(); i++) {
+            body.collider(i).setCollisionGroups(collisionGroups);
+        }
+        // sleeping bodies wouldn't notice they can collide with new things
+        body.wakeUp();
+        return true;
+    }
 
-        let colliderDesc = RAPIER.ColliderDesc.convexHull(
-            new Float32Array(polygon.points.flatMap((point) => [point.x, point.y]))
-        );
+    /** Pairs of objects that never collide with each other, keyed by `noCollideKey` */
+    private noCollidePairs: { [key: string]: [string, string] } = {};
+
+    private noCollideKey(objectA: string, objectB: string): string {
+        // IDs never have spaces
+        return objectA < objectB ? objectA + " " + objectB : objectB + " " + objectA;
+    }
 
-        if (!colliderDesc) {
-            throw new Error('Failed to create collider');
+    setNoCollide(objectA: string, objectB: string, noCollide: boolean = true) {
+        let key = this.noCollideKey(objectA, objectB);
+        if (noCollide) {
+            if (!this.bodies[objectA] || !this.bodies[objectB]) {
+                throw new Error('No-collide pair has an object that doesn\'t exist');
+            }
+            this.noCollidePairs[key] = objectA < objectB ? [objectA, objectB] : [objectB, objectA];
+        }
+        else {
+            delete this.noCollidePairs[key];
         }
+        this.updateActiveHooks(objectA);
+        this.updateActiveHooks(objectB);
+    }
 
-        colliderDesc = colliderDesc.setRestitution(polygon.restitution).setFriction(polygon.friction).setDensity(polygon.density);
-        let coll = this.world.createCollider(colliderDesc!, body);
+    getNoCollidePairs(): [string, string][] {
+        return Object.values(this.noCollidePairs).map((pair) => [pair[0], pair[1]]);
+    }
 
-        this.colliders.push(coll);
-        let content = this.getShapeContent(coll);
-        if (content) {
-            this.changedContents[id] = content;
+    /** Rapier only calls the contact filter hook for colliders that ask for it, so we only turn it on for objects in no-collide pairs */
+    private updateActiveHooks(id: string) {
+        let body = this.bodies[id];
+        if (!body) return;
+        let filtered = Object.values(this.noCollidePairs).some((pair) => pair[0] === id || pair[1] === id);
+        for (let i = 0; i < body.numColliders(); i++) {
+            body.collider(i).setActiveHooks(filtered ? RAPIER.ActiveHooks.FILTER_CONTACT_PAIRS : 0 as Rapier.ActiveHooks);
+        }
+        body.wakeUp();
+    }
+
+    private physicsHooks: Rapier.PhysicsHooks = {
+        filterContactPair: (collider1, collider2, body1, body2) => {
+            let bodyA = this.world?.getRigidBody(body1);
+            let bodyB = this.world?.getRigidBody(body2);
+            if (bodyA?.userData && bodyB?.userData && this.noCollidePairs[this.noCollideKey((bodyA.userData as SimuloObjectData).id, (bodyB.userData as SimuloObjectData).id)]) {
+                return null;
+            }
+            return RAPIER.SolverFlags.COMPUTE_IMPULSE;
+        },
+        filterIntersectionPair: () => true
+    };
+
+    /** Convex colliders that make up a polygon outline */
+    private createPolygonColliderDescs(points: { x: number, y: number }[]): Rapier.ColliderDesc[] {
+        return decomposePolygon(points).map((piece) => {
+            let colliderDesc = RAPIER.ColliderDesc.convexHull(
+                new Float32Array(piece.flatMap((point) => [point.x, point.y]))
+            );
+            if (!colliderDesc) {
+                throw new Error('Failed to create collider');
+            }
+            return colliderDesc;
+        });
+    }
+
+    /** Children of compound objects by ID, with the compound's color and material filled in where they didn't set their own */
+    private compoundChildren: { [id: string]: SimuloCompoundChild[] } = {};
+
+    /** One body with a collider for each child, at their local positions and angles */
+    addCompound(compound: BaseShapeData & {
+        children: SimuloCompoundChild[],
+    }) {
+        if (!this.world) { throw new Error('init world first'); }
+        if (compound.children.length === 0) {
+            throw new Error('Compound needs at least one child');
         }
 
-        return coll;
+        let children: SimuloCompoundChild[] = JSON.parse(JSON.stringify(compound.children)).map((child: SimuloCompoundChild) => ({
+            color: compound.color,
+            alpha: compound.alpha,
+            border: compound.border,
+            borderWidth: compound.borderWidth,
+            friction: compound.friction,
+            restitution: compound.restitution,
+            density: compound.density,
+            angle: 0,
+            ...child
+        }));
+
+        let colliderDescs: Rapier.ColliderDesc[] = [];
+        let materials: { friction: number, restitution: number, density: number }[] = [];
+        children.forEach((child) => {
+            let descs: Rapier.ColliderDesc[];
+            switch (child.type) {
+                case "rectangle":
+                    descs = [RAPIER.ColliderDesc.cuboid(child.width / 2, child.height / 2)];
+                    break;
+                case "circle":
+                    descs = [RAPIER.ColliderDesc.ball(child.radius)];
+                    break;
+                case "polygon":
+                    descs = this.createPolygonColliderDescs(child.points);
+                    break;
+            }
+            descs.forEach((desc) => {
+                colliderDescs.push(desc.setTranslation(child.position.x, child.position.y).setRotation(child.angle!));
+                materials.push({ friction: child.friction!, restitution: child.restitution!, density: child.density! });
+            });
+        });
+
+        let id = compound.id ?? this.getID(this.getContainerPrefix(compound.container ?? "/"));
+        this.compoundChildren[id] = children;
+        return this.createBody({ ...compound, id }, colliderDescs, materials);
     }
 
+    /** Note that `width` and `height` are half extents, so the rectangle will be twice as big */
     addRectangle(rectangle: BaseShapeData & {
         width: number,
         height: number,
     }) {
         if (!this.world) { throw new Error('init world first'); }
 
-        let id = rectangle.id ?? this.getID("/");
+        return this.createBody(rectangle, [RAPIER.ColliderDesc.cuboid(rectangle.width, rectangle.height)]);
+    }
 
-        let bodyDesc = rectangle.isStatic ? RAPIER.RigidBodyDesc.fixed() : RAPIER.RigidBodyDesc.dynamic();
-        bodyDesc = bodyDesc.setTranslation(
-            rectangle.position.x,
-            rectangle.position.y
-        );
+    addCircle(circle: BaseShapeData & {
+        radius: number,
+    }) {
+        if (!this.world) { throw new Error('init world first'); }
 
-        bodyDesc.setUserData({
-            id,
-            color: rectangle.color,
-            alpha: rectangle.alpha,
-            border: rectangle.border,
-            name: rectangle.name,
-            sound: rectangle.sound,
-            borderWidth: rectangle.borderWidth,
-            borderScaleWithZoom: rectangle.borderScaleWithZoom,
-            image: rectangle.image,
-            zDepth: rectangle.zDepth,
+        return this.createBody(circle, [RAPIER.ColliderDesc.ball(circle.radius)]);
+    }
+
+    /** Remove an object along with its colliders and any springs attached to it. Returns `false` if there is no object with that ID. */
+    removeObject(id: string): boolean {
+        return this.removeObjects([id]).length > 0;
+    }
+
+    /** Remove many objects at once. Returns the IDs that were actually removed. */
+    removeObjects(ids: string[]): string[] {
+        if (!this.world) { throw new Error('init world first'); }
+
+        let removed: string[] = [];
+        let colliderHandles = new Set<number>();
+        ids.forEach((id) => {
+            let body = this.bodies[id];
+            if (!body) return;
+            for (let i = 0; i < body.numColliders(); i++) {
+                colliderHandles.add(body.collider(i).handle);
+            }
+            // this also removes the colliders and joints attached to the body
+            this.world!.removeRigidBody(body);
+            delete this.bodies[id];
+            delete this.changedContents[id];
+            delete this.sentTransforms[id];
+            delete this.polygonOutlines[id];
+            delete this.compoundChildren[id];
+            delete this.creationOrder[id];
+            this.sleepingBodies.delete(id);
+            // objects can be containers too, so we don't need their ID counter anymore
+            delete this.currentIDs[id + "/"];
+            removed.push(id);
         });
+        if (removed.length === 0) return removed;
 
-        let body = this.world.createRigidBody(bodyDesc);
-        // no collide
-        let colliderDesc = RAPIER.ColliderDesc.cuboid(rectangle.width, rectangle.height).setRestitution(rectangle.restitution).setFriction(rectangle.friction).setDensity(rectangle.density);
-        let coll = this.world.createCollider(colliderDesc!, body);
+        this.colliders = this.colliders.filter((collider) => !colliderHandles.has(collider.handle));
 
-        this.colliders.push(coll);
-        let content = this.getShapeContent(coll);
-        if (content) {
-            this.changedContents[id] = content;
+        let removedSet = new Set(removed);
+        Object.keys(this.springs).forEach((springID) => {
+            let spring = this.springs[springID];
+            if ((spring.bodyA && removedSet.has(spring.bodyA)) || (spring.bodyB && removedSet.has(spring.bodyB))) {
+                delete this.springs[springID];
+            }
+        });
+        let unfiltered = new Set<string>();
+        Object.keys(this.noCollidePairs).forEach((key) => {
+            let pair = this.noCollidePairs[key];
+            if (removedSet.has(pair[0]) || removedSet.has(pair[1])) {
+                delete this.noCollidePairs[key];
+                unfiltered.add(pair[0]).add(pair[1]);
+            }
+        });
+        unfiltered.forEach((id) => this.updateActiveHooks(id));
+        // Rapier already removed the joints along with the bodies
+        Object.keys(this.joints).forEach((jointID) => {
+            let joint = this.joints[jointID];
+            if (removedSet.has(joint.desc.bodyA) || removedSet.has(joint.desc.bodyB)) {
+                delete this.joints[jointID];
+            }
+        });
+        Object.keys(this.thrusters).forEach((thrusterID) => {
+            if (removedSet.has(this.thrusters[thrusterID].body)) {
+                delete this.thrusters[thrusterID];
+            }
+        });
+
+        this.removedContents.push(...removed);
+        return removed;
+    }
+
+    /** Impulse joints by ID, along with the description they were created from */
+    joints: { [id: string]: { desc: SimuloJointDesc, joint: Rapier.ImpulseJoint } } = {};
+
+    /** Add a hinge joint, which lets the bodies rotate around the anchor points. Good for axles. */
+    addHingeJoint(desc: Omit<SimuloJointDesc, "type">, id?: string): SimuloJoint {
+        return this.addJoint({ ...desc, type: "hinge" }, id);
+    }
+
+    /** Add a bolt joint, which holds the bodies together rigidly */
+    addBoltJoint(desc: Omit<SimuloJointDesc, "type">, id?: string): SimuloJoint {
+        return this.addJoint({ ...desc, type: "bolt" }, id);
+    }
+
+    /** Add a slider joint, which only lets body B move along `axis` of body A */
+    addSliderJoint(desc: Omit<SimuloJointDesc, "type">, id?: string): SimuloJoint {
+        return this.addJoint({ ...desc, type: "slider" }, id);
+    }
+
+    addJoint(desc: SimuloJointDesc, id: string = this.getID("/")): SimuloJoint {
+        if (!this.world) { throw new Error('init world first'); }
+
+        let bodyA = this.bodies[desc.bodyA];
+        let bodyB = this.bodies[desc.bodyB];
+        if (!bodyA || !bodyB) {
+            throw new Error('Joint is attached to an object that doesn\'t exist');
+        }
+        desc = { ...desc };
+        if (desc.type === "bolt" && desc.referenceAngle === undefined) {
+            desc.referenceAngle = bodyB.rotation() - bodyA.rotation();
+        }
+        this.joints[id] = {
+            desc,
+            joint: this.createRapierJoint(desc),
+        };
+        return new SimuloJoint(this, id);
+    }
+
+    private createRapierJoint(desc: SimuloJointDesc): Rapier.ImpulseJoint {
+        if (!this.world) { throw new Error('init world first'); }
+
+        let params: Rapier.JointData;
+        switch (desc.type) {
+            case "hinge":
+                params = RAPIER.JointData.revolute(desc.localAnchorA, desc.localAnchorB);
+                break;
+            case "bolt":
+                params = RAPIER.JointData.fixed(desc.localAnchorA, desc.referenceAngle ?? 0, desc.localAnchorB, 0);
+                break;
+            case "slider":
+                params = RAPIER.JointData.prismatic(desc.localAnchorA, desc.localAnchorB, this.normalize(new RAPIER.Vector2(desc.axis?.x ?? 1, desc.axis?.y ?? 0)));
+                break;
+        }
+        if (desc.type !== "bolt" && desc.limits) {
+            params.limitsEnabled = true;
+            params.limits = [desc.limits[0], desc.limits[1]];
+        }
+
+        let joint = this.world.createImpulseJoint(params, this.bodies[desc.bodyA], this.bodies[desc.bodyB], true);
+        joint.setContactsEnabled(desc.collideConnected ?? false);
+        // rapier ignores limits in the joint data of revolute joints, so hinges need them set after
+        if (desc.type === "hinge" && desc.limits) {
+            (joint as Rapier.RevoluteImpulseJoint).setLimits(desc.limits[0], desc.limits[1]);
         }
+        if (desc.type !== "bolt" && desc.motor) {
+            (joint as Rapier.UnitImpulseJoint).configureMotor(desc.motor.targetPosition, desc.motor.targetVelocity, desc.motor.stiffness, desc.motor.damping);
+        }
+        return joint;
+    }
 
-        return coll;
+    getJoint(id: string): SimuloJointDesc | null {
+        return this.joints[id]?.desc ?? null;
     }
 
-    addCircle(circle: BaseShapeData & {
-        radius: number,
-    }) {
+    /** Change a joint's description. Rapier joints can't be changed after creation, so this recreates it. */
+    updateJoint(id: string, changes: Partial<Omit<SimuloJointDesc, "type" | "bodyA" | "bodyB">>) {
+        if (!this.world) { throw new Error('init world first'); }
+        let joint = this.joints[id];
+        if (!joint) return;
+        joint.desc = { ...joint.desc, ...changes };
+        this.world.removeImpulseJoint(joint.joint, true);
+        joint.joint = this.createRapierJoint(joint.desc);
+    }
+
+    removeJoint(id: string): boolean {
         if (!this.world) { throw new Error('init world first'); }
+        let joint = this.joints[id];
+        if (!joint) return false;
+        this.world.removeImpulseJoint(joint.joint, true);
+        delete this.joints[id];
+        return true;
+    }
+
+    /** Rendering data for all joints */
+    getJointInfos(): SimuloJointInfo[] {
+        return Object.keys(this.joints).map((id) => {
+            let desc = this.joints[id].desc;
+            let bodyA = this.bodies[desc.bodyA];
+            let bodyB = this.bodies[desc.bodyB];
+            let pointA = this.getWorldPoint(bodyA.translation(), bodyA.rotation(), desc.localAnchorA);
+            let pointB = this.getWorldPoint(bodyB.translation(), bodyB.rotation(), desc.localAnchorB);
+            return {
+                id,
+                type: desc.type,
+                pointA: { x: pointA.x, y: pointA.y },
+                pointB: { x: pointB.x, y: pointB.y },
+            };
+        });
+    }
+
+    /** Joints with their IDs, for saving */
+    private saveJoints(): SimuloSavedJoint[] {
+        return Object.keys(this.joints).map((id) => JSON.parse(JSON.stringify({ ...this.joints[id].desc, id })));
+    }
 
-        let id = circle.id ?? this.getID("/");
+    /** Thrusters by ID. Rapier forces are reset manually, so these are applied as impulses before each step instead. */
+    private thrusters: { [id: string]: SimuloThrusterDesc } = {};
 
-        let bodyDesc = circle.isStatic ? RAPIER.RigidBodyDesc.fixed() : RAPIER.RigidBodyDesc.dynamic();
-        bodyDesc = bodyDesc.setTranslation(
-            circle.position.x,
-            circle.position.y
-        );
+    addThruster(desc: SimuloThrusterDesc, id: string = this.getID("/")): string {
+        let body = this.bodies[desc.body];
+        if (!body) {
+            throw new Error('Thruster is attached to an object that doesn\'t exist');
+        }
+        this.thrusters[id] = JSON.parse(JSON.stringify(desc));
+        if (desc.enabled) body.wakeUp();
+        return id;
+    }
+
+    getThruster(id: string): SimuloThrusterDesc | null {
+        return this.thrusters[id] ?? null;
+    }
+
+    updateThruster(id: string, changes: Partial<Omit<SimuloThrusterDesc, "body">>): boolean {
+        let thruster = this.thrusters[id];
+        if (!thruster) return false;
+        // every property of a thruster is required, so undefined means unchanged. thrusters can't be moved to another body
+        let updated: SimuloThrusterDesc = {
+            body: thruster.body,
+            localAnchor: changes.localAnchor ?? thruster.localAnchor,
+            direction: changes.direction ?? thruster.direction,
+            strength: changes.strength ?? thruster.strength,
+            enabled: changes.enabled ?? thruster.enabled,
+            key: changes.key !== undefined ? changes.key : thruster.key,
+        };
+        this.thrusters[id] = JSON.parse(JSON.stringify(updated));
+        // a sleeping body wouldn't start moving when its thruster turns on
+        this.bodies[thruster.body].wakeUp();
+        return true;
+    }
+
+    removeThruster(id: string): boolean {
+        if (!this.thrusters[id]) return false;
+        delete this.thrusters[id];
+        return true;
+    }
+
+    getThrustersWithKey(key: string): string[] {
+        return Object.keys(this.thrusters).filter((id) => this.thrusters[id].key === key);
+    }
+
+    /** World space point and normalized direction of a thruster */
+    private getThrusterTransform(thruster: SimuloThrusterDesc): { point: Rapier.Vector2, direction: Rapier.Vector2 } {
+        let body = this.bodies[thruster.body];
+        let rotation = body.rotation();
+        let point = this.getWorldPoint(body.translation(), rotation, thruster.localAnchor);
+        let direction = this.getWorldPoint(new RAPIER.Vector2(0, 0), rotation, thruster.direction);
+        let length = this.magnitude(direction);
+        return { point, direction: length > 0 ? this.multiply(direction, 1 / length) : direction };
+    }
+
+    private applyThrusterForces(dt: number) {
+        Object.values(this.thrusters).forEach((thruster) => {
+            if (!thruster.enabled || thruster.strength === 0) return;
+            let { point, direction } = this.getThrusterTransform(thruster);
+            this.bodies[thruster.body].applyImpulseAtPoint(this.multiply(direction, thruster.strength * dt), point, true);
+        });
+    }
+
+    /** Rendering data for all thrusters */
+    getThrusterInfos(): SimuloThrusterInfo[] {
+        return Object.keys(this.thrusters).map((id) => {
+            let thruster = this.thrusters[id];
+            let { point, direction } = this.getThrusterTransform(thruster);
+            return {
+                id,
+                point: { x: point.x, y: point.y },
+                direction: { x: direction.x, y: direction.y },
+                enabled: thruster.enabled,
+            };
+        });
+    }
+
+    private saveThrusters(): SimuloSavedThruster[] {
+        return Object.keys(this.thrusters).map((id) => JSON.parse(JSON.stringify({ ...this.thrusters[id], id })));
+    }
+
+    /** Gravity fields by ID */
+    private gravityFields: { [id: string]: SimuloGravityFieldDesc } = {};
+
+    addGravityField(desc: SimuloGravityFieldDesc, id: string = this.getID("/")): string {
+        this.gravityFields[id] = JSON.parse(JSON.stringify(desc));
+        this.wakeUpAll();
+        return id;
+    }
+
+    getGravityField(id: string): SimuloGravityFieldDesc | null {
+        return this.gravityFields[id] ?? null;
+    }
+
+    updateGravityField(id: string, changes: Partial<SimuloGravityFieldDesc>): boolean {
+        let field = this.gravityFields[id];
+        if (!field) return false;
+        this.gravityFields[id] = JSON.parse(JSON.stringify({ ...field, ...changes }));
+        this.wakeUpAll();
+        return true;
+    }
+
+    removeGravityField(id: string): boolean {
+        if (!this.gravityFields[id]) return false;
+        delete this.gravityFields[id];
+        this.wakeUpAll();
+        return true;
+    }
+
+    getGravityFields(): SimuloSavedGravityField[] {
+        return Object.keys(this.gravityFields).map((id) => ({ ...this.gravityFields[id], id }));
+    }
+
+    private saveGravityFields(): SimuloSavedGravityField[] {
+        return JSON.parse(JSON.stringify(this.getGravityFields()));
+    }
+
+    /** Acceleration a gravity field gives an object at `position` with `layers`, before gravity scale */
+    private getFieldAcceleration(field: SimuloGravityFieldDesc, position: { x: number, y: number }, layers: string[]): { x: number, y: number } | null {
+        if (field.layers && !field.layers.some((layer) => layers.includes(layer))) return null;
+        let offset = { x: field.position.x - position.x, y: field.position.y - position.y };
+        let distance = Math.sqrt(offset.x * offset.x + offset.y * offset.y);
+        if (distance > field.radius) return null;
+
+        let falloff = 1;
+        if (field.falloff === "linear") {
+            falloff = 1 - distance / field.radius;
+        }
+        else if (field.falloff === "inverse_square") {
+            falloff = 1 / Math.max(distance * distance, 1);
+        }
+
+        switch (field.type) {
+            case "radial":
+                // right at the center there's no direction to pull in
+                if (distance === 0) return null;
+                let strength = (field.strength ?? 0) * falloff / distance;
+                return { x: offset.x * strength, y: offset.y * strength };
+            case "directional":
+                return { x: (field.direction?.x ?? 0) * falloff, y: (field.direction?.y ?? 0) * falloff };
+            case "zero":
+                return { x: -this.gravity.x * falloff, y: -this.gravity.y * falloff };
+        }
+    }
+
+    /** Rapier only has global gravity, so fields are applied as impulses before each step */
+    private applyGravityFields(dt: number) {
+        let fields = Object.values(this.gravityFields);
+        if (fields.length === 0) return;
+        let bodies = Object.values(this.bodies).concat(this.particles.map((particle) => particle.body));
+        bodies.forEach((body) => {
+            // sleeping bodies would keep the velocity and jump when woken up
+            if (!body.isDynamic() || body.isSleeping()) return;
+            let scale = body.gravityScale() * body.mass() * dt;
+            if (scale === 0) return;
+            let position = body.translation();
+            // particles are always on the default layer
+            let layers = (body.userData as SimuloObjectData | undefined)?.layers ?? ["default"];
+            let impulse = { x: 0, y: 0 };
+            fields.forEach((field) => {
+                let acceleration = this.getFieldAcceleration(field, position, layers);
+                if (acceleration) {
+                    impulse.x += acceleration.x * scale;
+                    impulse.y += acceleration.y * scale;
+                }
+            });
+            body.applyImpulse(impulse, false);
+        });
+    }
+
+    /** Particles are plain Rapier bodies without object data, kept in the order they're sent to clients */
+    private particles: { body: Rapier.RigidBody, radius: number, color: number }[] = [];
+    /** Whether particles were added or removed since the last step, so colors and radii need to be sent again */
+    private particlesChanged = false;
+
+    addParticles(particles: SimuloParticleDesc[]) {
+        if (!this.world) { throw new Error('init world first'); }
+        let collisionGroups = this.getCollisionGroups(["default"]);
+        particles.forEach((particle) => {
+            let bodyDesc = RAPIER.RigidBodyDesc.dynamic()
+                .setTranslation(particle.position.x, particle.position.y)
+                .setLinvel(particle.velocity?.x ?? 0, particle.velocity?.y ?? 0)
+                .lockRotations();
+            let body = this.world!.createRigidBody(bodyDesc);
+            let colliderDesc = RAPIER.ColliderDesc.ball(particle.radius).setFriction(0.1).setRestitution(0.1).setCollisionGroups(collisionGroups);
+            this.world!.createCollider(colliderDesc, body);
+            this.particles.push({ body, radius: particle.radius, color: particle.color });
+        });
+        if (particles.length > 0) this.particlesChanged = true;
+    }
+
+    removeParticlesInRadius(center: { x: number, y: number }, radius: number): number {
+        if (!this.world) { throw new Error('init world first'); }
+        let count = this.particles.length;
+        this.particles = this.particles.filter((particle) => {
+            let position = particle.body.translation();
+            let dx = position.x - center.x;
+            let dy = position.y - center.y;
+            if (dx * dx + dy * dy > radius * radius) return true;
+            this.world!.removeRigidBody(particle.body);
+            return false;
+        });
+        let removed = count - this.particles.length;
+        if (removed > 0) this.particlesChanged = true;
+        return removed;
+    }
+
+    clearParticles() {
+        if (!this.world) { throw new Error('init world first'); }
+        this.particles.forEach((particle) => {
+            this.world!.removeRigidBody(particle.body);
+        });
+        this.particles = [];
+        this.particlesChanged = true;
+    }
+
+    getParticleCount(): number {
+        return this.particles.length;
+    }
+
+    getParticleData(full: boolean = true): SimuloParticleData {
+        let positions: number[] = [];
+        this.particles.forEach((particle) => {
+            let position = particle.body.translation();
+            // rounded to keep world updates small, since this is sent every step
+            positions.push(Math.round(position.x * 1000) / 1000, Math.round(position.y * 1000) / 1000);
+        });
+        return {
+            positions,
+            colors: full ? this.particles.map((particle) => particle.color) : null,
+            radii: full ? this.particles.map((particle) => particle.radius) : null,
+        };
+    }
+
+    getParticles(): SimuloParticleDesc[] {
+        return this.particles.map((particle) => {
+            let position = particle.body.translation();
+            let velocity = particle.body.linvel();
+            return {
+                position: { x: position.x, y: position.y },
+                velocity: { x: velocity.x, y: velocity.y },
+                radius: particle.radius,
+                color: particle.color,
+            };
+        });
+    }
+
+    /** Serializable state of an object, or `null` if there is no object with that ID */
+    saveObject(id: string): SimuloSavedObject | null {
+        let body = this.bodies[id];
+        if (!body) return null;
+        let collider = body.collider(0);
+        let content = this.getShapeContent(collider);
+        if (!content) return null;
+
+        let shape: SimuloSavedObject["shape"];
+        switch (content.type) {
+            case "rectangle":
+                shape = { type: "rectangle", width: (content as Rectangle).width, height: (content as Rectangle).height };
+                break;
+            case "circle":
+                shape = { type: "circle", radius: (content as Circle).radius };
+                break;
+            case "polygon":
+                shape = { type: "polygon", points: (content as Polygon).points.map((point) => ({ x: point[0], y: point[1] })) };
+                break;
+            case "compound":
+                shape = { type: "compound", children: JSON.parse(JSON.stringify(this.compoundChildren[id])) };
+                break;
+            default:
+                return null;
+        }
+
+        let translation = body.translation();
+        let linvel = body.linvel();
+        return {
+            data: { ...(body.userData as SimuloObjectData) },
+            shape,
+            position: { x: translation.x, y: translation.y },
+            angle: body.rotation(),
+            linearVelocity: { x: linvel.x, y: linvel.y },
+            angularVelocity: body.angvel(),
+            isStatic: body.isFixed(),
+            friction: collider.friction(),
+            restitution: collider.restitution(),
+            density: collider.density(),
+            gravityScale: body.gravityScale(),
+        };
+    }
 
-        bodyDesc.setUserData({
+    /** Create an object from `saveObject` output. Pass `id` to load it under a different ID than the saved one. */
+    loadObject(saved: SimuloSavedObject, id: string = saved.data.id): string {
+        let shapeData: BaseShapeData = {
+            ...saved.data,
             id,
-            color: circle.color,
-            alpha: circle.alpha,
-            border: circle.border,
-            name: circle.name,
-            sound: circle.sound,
-            borderWidth: circle.borderWidth,
-            borderScaleWithZoom: circle.borderScaleWithZoom,
-            image: circle.image,
-            zDepth: circle.zDepth,
+            position: saved.position,
+            angle: saved.angle,
+            isStatic: saved.isStatic,
+            friction: saved.friction,
+            restitution: saved.restitution,
+            density: saved.density,
+            gravityScale: saved.gravityScale,
+        };
+        switch (saved.shape.type) {
+            case "rectangle":
+                this.addRectangle({ ...shapeData, width: saved.shape.width / 2, height: saved.shape.height / 2 });
+                break;
+            case "circle":
+                this.addCircle({ ...shapeData, radius: saved.shape.radius });
+                break;
+            case "polygon":
+                this.addPolygon({ ...shapeData, points: saved.shape.points });
+                break;
+            case "compound":
+                this.addCompound({ ...shapeData, children: saved.shape.children });
+                break;
+        }
+        let body = this.bodies[id];
+        body.setLinvel(saved.linearVelocity, true);
+        body.setAngvel(saved.angularVelocity, true);
+        return id;
+    }
+
+    /** Serialize the whole world to a scene. Springs that aren't attached to objects on both ends (like the drag tool's) are skipped. */
+    saveScene(details: SimuloItemDetails): SimuloScene {
+        let now = new Date().toISOString();
+        let objects: SimuloSavedObject[] = [];
+        Object.keys(this.bodies).forEach((id) => {
+            let saved = this.saveObject(id);
+            if (saved) objects.push(saved);
         });
+        return {
+            schemaVersion: SCENE_SCHEMA_VERSION,
+            details: {
+                ...details,
+                createdAt: details.createdAt ?? now,
+                updatedAt: now,
+            },
+            gravity: { x: this.gravity.x, y: this.gravity.y },
+            currentIDs: { ...this.currentIDs },
+            containers: Object.values(this.containers).map((data) => ({ ...data })),
+            objects,
+            springs: this.saveSprings(),
+            joints: this.saveJoints(),
+            noCollide: this.getNoCollidePairs(),
+            gravityFields: this.saveGravityFields(),
+            particles: this.getParticles(),
+            thrusters: this.saveThrusters(),
+        };
+    }
 
-        let body = this.world.createRigidBody(bodyDesc);
-        // no collide
-        let colliderDesc = RAPIER.ColliderDesc.ball(circle.radius).setRestitution(circle.restitution).setFriction(circle.friction).setDensity(circle.density);
-        let coll = this.world.createCollider(colliderDesc!, body);
+    /** Springs attached to objects on both ends that aren't temporary, see `SimuloSpringDesc.bodyA` */
+    private saveSprings(): SimuloSavedSpring[] {
+        let springs: SimuloSavedSpring[] = [];
+        Object.keys(this.springs).forEach((id) => {
+            let spring = this.springs[id];
+            if (spring.bodyA === undefined || spring.bodyB === undefined || spring.temporary) return;
+            springs.push({
+                id,
+                bodyA: spring.bodyA,
+                bodyB: spring.bodyB,
+                localAnchorA: { x: spring.localAnchorA.x, y: spring.localAnchorA.y },
+                localAnchorB: { x: spring.localAnchorB.x, y: spring.localAnchorB.y },
+                stiffness: spring.stiffness,
+                damping: spring.damping,
+                targetLength: spring.targetLength,
+            });
+        });
+        return springs;
+    }
 
-        this.colliders.push(coll);
-        let content = this.getShapeContent(coll);
-        if (content) {
-            this.changedContents[id] = content;
+    /** Replace everything in the world with a scene. Older scene versions are migrated first.
+     * 
+     * This works on a live world, so the server loop doesn't need to be restarted, and clients get the changes in the next step. */
+    loadScene(input: SimuloScene): void {
+        if (!this.world) { throw new Error('init world first'); }
+
+        let scene = migrateScene(JSON.parse(JSON.stringify(input)));
+
+        this.removeObjects(Object.keys(this.bodies));
+        this.clearParticles();
+        this.springs = {};
+        this.joints = {};
+        this.noCollidePairs = {};
+        this.thrusters = {};
+        this.gravityFields = {};
+        this.layerBits = {};
+        this.highestZDepth = 0;
+        this.lowestZDepth = 0;
+        this.containers = {};
+        scene.containers.forEach((data) => {
+            this.containers[data.id] = { ...data };
+        });
+
+        this.setGravity(scene.gravity);
+
+        scene.objects.forEach((saved) => {
+            this.loadObject(saved);
+        });
+        scene.springs.forEach((spring) => {
+            this.addObjectSpring(spring, spring.id);
+        });
+        scene.joints.forEach((joint) => {
+            let { id, ...desc } = joint;
+            this.addJoint(desc, id);
+        });
+        scene.noCollide.forEach((pair) => {
+            this.setNoCollide(pair[0], pair[1]);
+        });
+        scene.gravityFields.forEach((field) => {
+            let { id, ...desc } = field;
+            this.addGravityField(desc, id);
+        });
+        this.addParticles(scene.particles);
+        scene.thrusters.forEach((thruster) => {
+            let { id, ...desc } = thruster;
+            this.addThruster(desc, id);
+        });
+
+        this.currentIDs = { ...scene.currentIDs };
+    }
+
+    takeSnapshot(): RapierSnapshot {
+        if (!this.world) { throw new Error('init world first'); }
+
+        let bodies: RapierSnapshot["bodies"] = {};
+        Object.keys(this.bodies).forEach((id) => {
+            let body = this.bodies[id];
+            bodies[id] = { handle: body.handle, data: JSON.parse(JSON.stringify(body.userData)) };
+        });
+        let joints: RapierSnapshot["joints"] = {};
+        Object.keys(this.joints).forEach((id) => {
+            joints[id] = { desc: JSON.parse(JSON.stringify(this.joints[id].desc)), handle: this.joints[id].joint.handle };
+        });
+        // temporary springs belong to whoever made them, like the drag tool, so they're left as they are when restoring
+        let springs: RapierSnapshot["springs"] = {};
+        Object.keys(this.springs).forEach((id) => {
+            let spring = this.springs[id];
+            if (spring.temporary) return;
+            springs[id] = { ...spring, localAnchorA: { ...spring.localAnchorA }, localAnchorB: { ...spring.localAnchorB } };
+        });
+        return {
+            backend: "rapier",
+            world: this.world.takeSnapshot(),
+            bodies,
+            colliders: this.colliders.map((collider) => collider.handle),
+            joints,
+            particles: this.particles.map((particle) => ({ handle: particle.body.handle, radius: particle.radius, color: particle.color })),
+            springs,
+            state: JSON.stringify({
+                gravity: this.gravity,
+                currentIDs: this.currentIDs,
+                containers: this.containers,
+                polygonOutlines: this.polygonOutlines,
+                layerBits: this.layerBits,
+                noCollidePairs: this.noCollidePairs,
+                compoundChildren: this.compoundChildren,
+                thrusters: this.thrusters,
+                gravityFields: this.gravityFields,
+                highestZDepth: this.highestZDepth,
+                lowestZDepth: this.lowestZDepth,
+                creationOrder: this.creationOrder,
+                objectsCreated: this.objectsCreated,
+            }),
+        };
+    }
+
+    restoreSnapshot(input: SimuloPhysicsSnapshot): void {
+        if (!this.world) { throw new Error('init world first'); }
+        if (input.backend !== "rapier") {
+            throw new Error('Snapshot is from the ' + input.backend + ' backend, not Rapier');
         }
+        let snapshot = input as RapierSnapshot;
+
+        // every object counts as removed, and then the ones in the snapshot are added back in the next step
+        this.removedContents.push(...Object.keys(this.bodies).filter((id) => !snapshot.bodies[id]));
+        let world = RAPIER.World.restoreSnapshot(snapshot.world);
+        this.world.free();
+        this.world = world;
 
-        return coll;
+        this.bodies = {};
+        Object.keys(snapshot.bodies).forEach((id) => {
+            let body = world.getRigidBody(snapshot.bodies[id].handle);
+            body.userData = JSON.parse(JSON.stringify(snapshot.bodies[id].data));
+            this.bodies[id] = body;
+        });
+        this.colliders = snapshot.colliders.map((handle) => world.getCollider(handle));
+        this.joints = {};
+        Object.keys(snapshot.joints).forEach((id) => {
+            this.joints[id] = { desc: JSON.parse(JSON.stringify(snapshot.joints[id].desc)), joint: world.getImpulseJoint(snapshot.joints[id].handle) };
+        });
+        this.particles = snapshot.particles.map((particle) => ({ body: world.getRigidBody(particle.handle), radius: particle.radius, color: particle.color }));
+        this.particlesChanged = true;
+
+        let springs: { [id: string]: SimuloSpringDesc } = {};
+        Object.keys(this.springs).forEach((id) => {
+            let spring = this.springs[id];
+            let exists = (body: string | null | undefined) => typeof body !== "string" || this.bodies[body] !== undefined;
+            if (spring.temporary && exists(spring.bodyA) && exists(spring.bodyB)) {
+                springs[id] = spring;
+            }
+        });
+        Object.keys(snapshot.springs).forEach((id) => {
+            let spring = snapshot.springs[id];
+            springs[id] = { ...spring, localAnchorA: { ...spring.localAnchorA }, localAnchorB: { ...spring.localAnchorB } };
+        });
+        this.springs = springs;
+
+        let state = JSON.parse(snapshot.state);
+        this.gravity = state.gravity;
+        this.currentIDs = state.currentIDs;
+        this.containers = state.containers;
+        this.polygonOutlines = state.polygonOutlines;
+        this.layerBits = state.layerBits;
+        this.noCollidePairs = state.noCollidePairs;
+        this.compoundChildren = state.compoundChildren;
+        this.thrusters = state.thrusters;
+        this.gravityFields = state.gravityFields;
+        this.highestZDepth = state.highestZDepth;
+        this.lowestZDepth = state.lowestZDepth;
+        this.creationOrder = state.creationOrder;
+        this.objectsCreated = state.objectsCreated;
+
+        // shapes can change without moving, so all content and transforms are sent again
+        this.changedContents = this.getShapeContents();
+        this.sentTransforms = {};
+        this.sleepingBodies = new Set();
     }
 
-    step(): SimuloPhysicsStepInfo {
+    step(dt: number = 1 / 60): SimuloPhysicsStepInfo {
         if (!this.world) { throw new Error('init world first'); }
 
         let before = new Date().getTime();
+        this.world.timestep = dt;
         Object.values(this.springs).forEach((spring) => {
-            this.applySpringForce(spring);
+            this.applySpringForce(spring, dt);
         });
-        this.world.step();
+        this.applyThrusterForces(dt);
+        this.applyGravityFields(dt);
+        this.world.step(this.eventQueue ?? undefined, this.physicsHooks);
+        this.emitCollisionEvents();
 
         let changed = this.changedContents;
         this.changedContents = {};
+        let removed = this.removedContents;
+        this.removedContents = [];
+        let particlesChanged = this.particlesChanged;
+        this.particlesChanged = false;
+
+        this.stepCount++;
+        let keyframe = this.keyframeInterval > 0 && this.stepCount % this.keyframeInterval === 0;
+        let transforms = this.getShapeTransformsDelta(keyframe);
+        // clients rebuild the graphic of changed contents, so they need a transform with them even if the object didn't move
+        Object.keys(changed).forEach((id) => {
+            let body = this.bodies[id];
+            if (!body || transforms[id]) return;
+            let translation = body.translation();
+            transforms[id] = { x: translation.x, y: translation.y, angle: body.rotation() };
+            this.sentTransforms[id] = transforms[id];
+        });
 
         return {
             delta: {
                 shapeContent: changed,
-                shapeTransforms: this.getShapeTransforms(), // this should be changed to a delta since lots of bodies are sleeping
+                shapeTransforms: transforms,
+                keyframe: keyframe,
+                removed: removed,
             },
             ms: new Date().getTime() - before,
-            springs: Object.values(this.springs).map((spring) => {
-                let pointA = this.getWorldPoint(spring.getBodyAPosition(), spring.getBodyARotation(), spring.localAnchorA);
-                let pointB = this.getWorldPoint(spring.getBodyBPosition(), spring.getBodyBRotation(), spring.localAnchorB);
-                return {
-                    pointA: { x: pointA.x, y: pointA.y },
-                    pointB: { x: pointB.x, y: pointB.y },
-                }
-            })
+            springs: this.getSpringInfos(),
+            joints: this.getJointInfos(),
+            thrusters: this.getThrusterInfos(),
+            particles: this.getParticleData(particlesChanged)
         };
     }
 
-    getObjectAtPoint(x: number, y: number): Rapier.Collider | null {
+    /** Rendering data for all springs */
+    getSpringInfos(): SimuloSpringInfo[] {
+        return Object.values(this.springs).map((spring) => {
+            let pointA = this.getWorldPoint(spring.getBodyAPosition(), spring.getBodyARotation(), spring.localAnchorA);
+            let pointB = this.getWorldPoint(spring.getBodyBPosition(), spring.getBodyBRotation(), spring.localAnchorB);
+            return {
+                pointA: { x: pointA.x, y: pointA.y },
+                pointB: { x: pointB.x, y: pointB.y },
+            }
+        });
+    }
+
+    /** Drain the event queue and emit `collision_start` and `collision_stop` events */
+    private emitCollisionEvents() {
+        if (!this.world || !this.eventQueue) return;
+        let world = this.world;
+        this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+            let collider1 = world.getCollider(handle1);
+            let collider2 = world.getCollider(handle2);
+            // one of them could have been removed this step
+            if (!collider1 || !collider2) return;
+            let body1 = collider1.parent();
+            let body2 = collider2.parent();
+            // particles aren't objects, and there are too many of them to send events for
+            if (!body1 || !body2 || !body1.userData || !body2.userData) return;
+
+            let relativeVelocity = this.sub(body1.linvel(), body2.linvel());
+            let point: { x: number, y: number } | null = null;
+            let normalSpeed = 0;
+            if (started) {
+                world.contactPair(collider1, collider2, (manifold) => {
+                    if (point !== null || manifold.numSolverContacts() === 0) return;
+                    let contactPoint = manifold.solverContactPoint(0);
+                    point = { x: contactPoint.x, y: contactPoint.y };
+                    normalSpeed = Math.abs(this.dot(relativeVelocity, manifold.normal()));
+                });
+            }
+
+            // contacts that just started haven't been solved yet, so we estimate the impulse it takes to stop the objects
+            let mass1 = body1.isDynamic() ? body1.mass() : Infinity;
+            let mass2 = body2.isDynamic() ? body2.mass() : Infinity;
+            let reducedMass = mass1 === Infinity ? mass2 : mass2 === Infinity ? mass1 : (mass1 * mass2) / (mass1 + mass2);
+            if (reducedMass === Infinity) reducedMass = 0;
+
+            let event: SimuloCollisionEvent = {
+                objectA: (body1.userData as SimuloObjectData).id,
+                objectB: (body2.userData as SimuloObjectData).id,
+                point,
+                relativeSpeed: this.magnitude(relativeVelocity),
+                impulse: normalSpeed * reducedMass,
+            };
+            this.emit(started ? 'collision_start' : 'collision_stop', event);
+        });
+    }
+
+    /** Simulo object data of an object, or `null` if there is no object with that ID */
+    getObjectData(id: string): SimuloObjectData | null {
+        let body = this.bodies[id];
+        if (!body) return null;
+        return body.userData as SimuloObjectData;
+    }
+
+    setObjectProperties(id: string, properties: Partial<SimuloObjectProperties>): boolean {
+        if (!this.world) { throw new Error('init world first'); }
+        let body = this.bodies[id];
+        if (!body) return false;
+        let content = this.getShapeContent(body.collider(0));
+        if (!content) return false;
+
+        // check sizes before changing anything, so a bad size doesn't leave the object half changed
+        let sizeTypes: { [property: string]: ShapeContentData["type"] } = { width: "rectangle", height: "rectangle", radius: "circle", points: "polygon" };
+        Object.keys(sizeTypes).forEach((property) => {
+            if (property in properties && content!.type !== sizeTypes[property]) {
+                throw new Error('Object `' + id + '` is a ' + content!.type + ', so it has no ' + property);
+            }
+        });
+        let colliderDescs: Rapier.ColliderDesc[] | null = null;
+        if (properties.width !== undefined || properties.height !== undefined) {
+            let rectangle = content as Rectangle;
+            colliderDescs = [RAPIER.ColliderDesc.cuboid(properties.width ?? rectangle.width / 2, properties.height ?? rectangle.height / 2)];
+        }
+        else if (properties.radius !== undefined) {
+            colliderDescs = [RAPIER.ColliderDesc.ball(properties.radius)];
+        }
+        else if (properties.points !== undefined) {
+            colliderDescs = this.createPolygonColliderDescs(properties.points);
+        }
+
+        let data = body.userData as SimuloObjectData;
+        let dataProperties = ["name", "sound", "color", "alpha", "border", "borderWidth", "borderScaleWithZoom", "image", "flipImage", "zDepth"] as const;
+        if (properties.zDepth !== undefined) {
+            this.highestZDepth = Math.max(this.highestZDepth, properties.zDepth);
+            this.lowestZDepth = Math.min(this.lowestZDepth, properties.zDepth);
+        }
+        dataProperties.forEach((property) => {
+            if (property in properties) {
+                assign(data, property, properties[property]);
+            }
+        });
+
+        // compound children have their own colors and materials, so changing the compound changes all of them
+        let children = this.compoundChildren[id];
+        if (children) {
+            let childProperties = ["color", "alpha", "border", "borderWidth", "friction", "restitution", "density"] as const;
+            children.forEach((child) => {
+                childProperties.forEach((property) => {
+                    if (property in properties) {
+                        assign(child, property, properties[property]);
+                    }
+                });
+            });
+        }
+
+        if (properties.isStatic !== undefined) {
+            body.setBodyType(properties.isStatic ? RAPIER.RigidBodyType.Fixed : RAPIER.RigidBodyType.Dynamic, true);
+        }
+        if (properties.gravityScale !== undefined) {
+            body.setGravityScale(properties.gravityScale, true);
+        }
+        if (properties.position !== undefined) body.setTranslation(properties.position, true);
+        if (properties.angle !== undefined) body.setRotation(properties.angle, true);
+        if (properties.linearVelocity !== undefined) body.setLinvel(properties.linearVelocity, true);
+        if (properties.angularVelocity !== undefined) body.setAngvel(properties.angularVelocity, true);
+
+        if (colliderDescs) {
+            // sizes can't be changed on existing colliders in general (polygons can have a different number of pieces), so we replace them
+            let old = body.collider(0);
+            let material = { friction: old.friction(), restitution: old.restitution(), density: old.density() };
+            let collisionGroups = old.collisionGroups();
+            let oldHandles = new Set<number>();
+            while (body.numColliders() > 0) {
+                let collider = body.collider(0);
+                oldHandles.add(collider.handle);
+                // Rapier can panic on the next step if the body isn't woken up here
+                this.world.removeCollider(collider, true);
+            }
+            this.colliders = this.colliders.filter((collider) => !oldHandles.has(collider.handle));
+            colliderDescs.forEach((colliderDesc) => {
+                colliderDesc = colliderDesc.setRestitution(material.restitution).setFriction(material.friction).setDensity(material.density).setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS).setCollisionGroups(collisionGroups);
+                this.colliders.push(this.world!.createCollider(colliderDesc, body));
+            });
+            if (properties.points) {
+                this.polygonOutlines[id] = properties.points.map((point) => ({ x: point.x, y: point.y }));
+            }
+            this.updateActiveHooks(id);
+        }
+
+        for (let i = 0; i < body.numColliders(); i++) {
+            let collider = body.collider(i);
+            if (properties.friction !== undefined) collider.setFriction(properties.friction);
+            if (properties.restitution !== undefined) collider.setRestitution(properties.restitution);
+            if (properties.density !== undefined) collider.setDensity(properties.density);
+        }
+        body.wakeUp();
+
+        let newContent = this.getShapeContent(body.collider(0));
+        if (newContent) {
+            this.changedContents[id] = newContent;
+        }
+        return true;
+    }
+
+    getObjectAtPoint(x: number, y: number): string | null {
         if (!this.world) { throw new Error('init world first'); }
         let point = new RAPIER.Vector2(x, y);
-        let proj = this.world.projectPoint(point, true);
+        let proj = this.world.projectPoint(point, true, undefined, undefined, undefined, undefined, (collider) => this.getColliderObjectID(collider) !== null);
         if (proj != null && proj.isInside) {
-            return proj.collider;
+            let parent = proj.collider.parent();
+            if (parent) {
+                return (parent.userData as SimuloObjectData).id;
+            }
         }
         return null;
     }
 
+    private getColliderObjectID(collider: Rapier.Collider): string | null {
+        let parent = collider.parent();
+        // particles have no object data
+        return (parent?.userData as SimuloObjectData | undefined)?.id ?? null;
+    }
+
+    /** Interaction groups and predicate to pass to Rapier queries */
+    private getQueryFilter(filter: SimuloQueryFilter = {}): { groups: number | undefined, predicate: ((collider: Rapier.Collider) => boolean) | undefined } {
+        let groups: number | undefined;
+        if (filter.layers) {
+            let bits = 0;
+            filter.layers.forEach((layer) => {
+                // no object has ever been on a layer without a bit, so it can't match anything
+                if (this.layerBits[layer] !== undefined) {
+                    bits |= 1 << this.layerBits[layer];
+                }
+            });
+            groups = ((bits << 16) | bits) >>> 0;
+        }
+        let exclude = new Set(filter.exclude ?? []);
+        // always set, so queries skip particles
+        let predicate = (collider: Rapier.Collider) => {
+            let id = this.getColliderObjectID(collider);
+            return id !== null && !exclude.has(id);
+        };
+        return { groups, predicate };
+    }
+
+    /** Highest and lowest Z Depth any object has had, so new objects can go on top. These aren't lowered when objects are removed. */
+    private highestZDepth = 0;
+    private lowestZDepth = 0;
+    /** Number of each object in the order they were created, to sort objects with the same Z Depth. Rapier reuses body handles after removals, so those can't be used. */
+    private creationOrder: { [id: string]: number } = {};
+    private objectsCreated = 0;
+
+    bringToFront(id: string): boolean {
+        if (!this.bodies[id]) return false;
+        return this.setObjectProperties(id, { zDepth: this.highestZDepth + 1 });
+    }
+
+    sendToBack(id: string): boolean {
+        if (!this.bodies[id]) return false;
+        return this.setObjectProperties(id, { zDepth: this.lowestZDepth - 1 });
+    }
+
+    raise(id: string): boolean {
+        if (!this.bodies[id]) return false;
+        let order = this.sortTopToBottom(Object.keys(this.bodies));
+        let index = order.indexOf(id);
+        if (index > 0) {
+            this.swapZDepths(id, order[index - 1]);
+        }
+        return true;
+    }
+
+    lower(id: string): boolean {
+        if (!this.bodies[id]) return false;
+        let order = this.sortTopToBottom(Object.keys(this.bodies));
+        let index = order.indexOf(id);
+        if (index < order.length - 1) {
+            this.swapZDepths(id, order[index + 1]);
+        }
+        return true;
+    }
+
+    /** Swap the places of two objects that are next to each other in drawing order */
+    private swapZDepths(id: string, other: string) {
+        let zDepth = (this.bodies[id].userData as SimuloObjectData).zDepth;
+        let otherZDepth = (this.bodies[other].userData as SimuloObjectData).zDepth;
+        if (zDepth === otherZDepth) {
+            // ties are sorted by age, so we step past the other object instead
+            let above = this.sortTopToBottom([id, other])[0] === other;
+            this.setObjectProperties(id, { zDepth: zDepth + (above ? 1 : -1) });
+            return;
+        }
+        this.setObjectProperties(id, { zDepth: otherZDepth });
+        this.setObjectProperties(other, { zDepth });
+    }
+
+    /** Sort object IDs by Z Depth, highest first. Objects with the same Z Depth are sorted newest first. */
+    private sortTopToBottom(ids: string[]): string[] {
+        return ids.sort((a, b) => {
+            let bodyA = this.bodies[a];
+            let bodyB = this.bodies[b];
+            return (bodyB.userData as SimuloObjectData).zDepth - (bodyA.userData as SimuloObjectData).zDepth || this.creationOrder[b] - this.creationOrder[a];
+        });
+    }
+
+    getObjectsAtPoint(x: number, y: number, filter?: SimuloQueryFilter): string[] {
+        if (!this.world) { throw new Error('init world first'); }
+        let { groups, predicate } = this.getQueryFilter(filter);
+        let ids = new Set<string>();
+        this.world.intersectionsWithPoint(new RAPIER.Vector2(x, y), (collider) => {
+            let id = this.getColliderObjectID(collider);
+            if (id !== null) ids.add(id);
+            return true;
+        }, undefined, groups, undefined, undefined, predicate);
+        return this.sortTopToBottom([...ids]);
+    }
+
+    getTopmostObjectAtPoint(x: number, y: number, filter?: SimuloQueryFilter): string | null {
+        return this.getObjectsAtPoint(x, y, filter)[0] ?? null;
+    }
+
+    raycast(origin: { x: number, y: number }, direction: { x: number, y: number }, maxDistance: number, filter?: SimuloQueryFilter): SimuloRaycastHit | null {
+        if (!this.world) { throw new Error('init world first'); }
+        let dir = this.normalize(new RAPIER.Vector2(direction.x, direction.y));
+        if (dir.x === 0 && dir.y === 0) return null;
+        let { groups, predicate } = this.getQueryFilter(filter);
+        let hit = this.world.castRayAndGetNormal(new RAPIER.Ray(origin, dir), maxDistance, true, undefined, groups, undefined, undefined, predicate);
+        if (!hit) return null;
+        let id = this.getColliderObjectID(hit.collider);
+        if (id === null) return null;
+        return {
+            id,
+            point: { x: origin.x + dir.x * hit.toi, y: origin.y + dir.y * hit.toi },
+            normal: { x: hit.normal.x, y: hit.normal.y },
+            distance: hit.toi,
+        };
+    }
+
+    raycastAll(origin: { x: number, y: number }, direction: { x: number, y: number }, maxDistance: number, filter?: SimuloQueryFilter): SimuloRaycastHit[] {
+        if (!this.world) { throw new Error('init world first'); }
+        let dir = this.normalize(new RAPIER.Vector2(direction.x, direction.y));
+        if (dir.x === 0 && dir.y === 0) return [];
+        let { groups, predicate } = this.getQueryFilter(filter);
+        // objects with several colliders can be hit more than once, so we keep the closest hit of each
+        let hits: { [id: string]: SimuloRaycastHit } = {};
+        this.world.intersectionsWithRay(new RAPIER.Ray(origin, dir), maxDistance, true, (hit) => {
+            let id = this.getColliderObjectID(hit.collider);
+            if (id !== null && (!hits[id] || hit.toi < hits[id].distance)) {
+                hits[id] = {
+                    id,
+                    point: { x: origin.x + dir.x * hit.toi, y: origin.y + dir.y * hit.toi },
+                    normal: { x: hit.normal.x, y: hit.normal.y },
+                    distance: hit.toi,
+                };
+            }
+            return true;
+        }, undefined, groups, undefined, undefined, predicate);
+        return Object.values(hits).sort((a, b) => a.distance - b.distance);
+    }
+
+    queryRegion(min: { x: number, y: number }, max: { x: number, y: number }, filter?: SimuloQueryFilter): string[] {
+        // corners can be given in any order, like when dragging a selection box up and to the left
+        let left = Math.min(min.x, max.x);
+        let right = Math.max(min.x, max.x);
+        let bottom = Math.min(min.y, max.y);
+        let top = Math.max(min.y, max.y);
+        return this.queryShape({
+            type: "rectangle",
+            width: right - left,
+            height: top - bottom,
+            position: { x: (left + right) / 2, y: (bottom + top) / 2 },
+        }, filter);
+    }
+
+    queryShape(shape: SimuloQueryShape, filter?: SimuloQueryFilter): string[] {
+        if (!this.world) { throw new Error('init world first'); }
+        let shapes: Rapier.Shape[];
+        switch (shape.type) {
+            case "rectangle":
+                shapes = [new RAPIER.Cuboid(shape.width / 2, shape.height / 2)];
+                break;
+            case "circle":
+                shapes = [new RAPIER.Ball(shape.radius)];
+                break;
+            case "polygon":
+                shapes = decomposePolygon(shape.points).map((piece) => new RAPIER.ConvexPolygon(new Float32Array(piece.flatMap((point) => [point.x, point.y])), false));
+                break;
+        }
+        let { groups, predicate } = this.getQueryFilter(filter);
+        let ids = new Set<string>();
+        shapes.forEach((queryShape) => {
+            this.world!.intersectionsWithShape(new RAPIER.Vector2(shape.position.x, shape.position.y), shape.angle ?? 0, queryShape, (collider) => {
+                let id = this.getColliderObjectID(collider);
+                if (id !== null) ids.add(id);
+                return true;
+            }, undefined, groups, undefined, undefined, predicate);
+        });
+        return this.sortTopToBottom([...ids]);
+    }
+
+    getObjectLocalPoint(id: string, worldPoint: { x: number, y: number }): { x: number, y: number } | null {
+        let body = this.bodies[id];
+        if (!body) return null;
+        let point = this.getLocalPoint(body.translation(), body.rotation(), worldPoint);
+        return { x: point.x, y: point.y };
+    }
+
+    getObjectWorldPoint(id: string, localPoint: { x: number, y: number }): { x: number, y: number } | null {
+        let body = this.bodies[id];
+        if (!body) return null;
+        let point = this.getWorldPoint(body.translation(), body.rotation(), localPoint);
+        return { x: point.x, y: point.y };
+    }
+
     getShapeContents(): { [id: string]: ShapeContentData } {
         let contents: { [id: string]: ShapeContentData } = {};
         this.colliders.forEach((collider) => {
@@ -722,7 +1996,8 @@ class SimuloPhysicsServerRapier {
         return new RAPIER.Vector2(worldX, worldY);
     }
 
-    applySpringForce(spring: SimuloSpringDesc) {
+    /** Spring strengths were tuned for impulses at 60 steps per second, so impulses are scaled to keep springs the same at other timesteps */
+    applySpringForce(spring: SimuloSpringDesc, dt: number = 1 / 60) {
         const pointAWorld = this.getWorldPoint(spring.getBodyAPosition(), spring.getBodyARotation(), spring.localAnchorA);
         const pointBWorld = this.getWorldPoint(spring.getBodyBPosition(), spring.getBodyBRotation(), spring.localAnchorB);
 
@@ -740,8 +2015,8 @@ class SimuloPhysicsServerRapier {
         const forceMagnitudeA = spring.stiffness * (distance - spring.targetLength) - (spring.damping * (this.dot(springVector, velA) / distance));
         const forceMagnitudeB = -spring.stiffness * (distance - spring.targetLength) - (spring.damping * (this.dot(springVector, velB) / distance));
 
-        const forceOnA = this.multiply(direction, forceMagnitudeA);
-        const forceOnB = this.multiply(direction, forceMagnitudeB);
+        const forceOnA = this.multiply(direction, forceMagnitudeA * dt * 60);
+        const forceOnB = this.multiply(direction, forceMagnitudeB * dt * 60);
 
         spring.applyBodyAImpulse(forceOnA, pointAWorld);
         spring.applyBodyBImpulse(forceOnB, pointBWorld);
@@ -749,4 +2024,6 @@ class SimuloPhysicsServerRapier {
 }
 
 export default SimuloPhysicsServerRapier;
-export type { ShapeContentData, Polygon, Rectangle, Circle, ShapeTransformData, SimuloPhysicsStepInfo, SimuloSpring };
\ No newline at end of file
+// types used to be defined here, so we keep exporting them
+export { SimuloSpring, SimuloJoint };
+export type { ShapeContentData, Polygon, Rectangle, Circle, CompoundChildContent, Compound, SimuloCompoundChild, SimuloObjectProperties, SimuloQueryFilter, SimuloRaycastHit, SimuloQueryShape, ShapeTransformData, SimuloPhysicsStepInfo, SimuloSpringDesc, SimuloSpringInfo, SimuloJointType, SimuloJointMotor, SimuloJointDesc, SimuloJointInfo, SimuloCollisionEvent, BaseShapeData };
\ No newline at end of file
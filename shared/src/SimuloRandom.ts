@@ -0,0 +1,25 @@
+/** Seeded random number generator (mulberry32), so the same seed always gives the same numbers. Use the one on `SimuloServerController` instead of `Math.random` for anything that changes the world, so sessions can be replayed. */
+class SimuloRandom {
+    /** Current state. Save it and pass it to the constructor to continue from the same point later. */
+    state: number;
+
+    constructor(seed: number = Math.floor(Math.random() * 0x100000000)) {
+        this.state = seed >>> 0;
+    }
+
+    /** Random number from 0 (inclusive) to 1 (exclusive), like `Math.random`. Can be passed around on its own, like `randomColor(random.next)`. */
+    next = (): number => {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+
+    /** Random number from `min` (inclusive) to `max` (exclusive) */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+}
+
+export default SimuloRandom;
@@ -0,0 +1,136 @@
+import type SimuloItemDetails from "./SimuloItemDetails";
+import type SimuloObjectData from "./SimuloObjectData";
+import type SimuloContainerData from "./SimuloContainerData";
+import type { SimuloJointDesc, SimuloCompoundChild, SimuloGravityFieldDesc, SimuloParticleDesc, SimuloThrusterDesc } from "./SimuloPhysicsServer";
+
+/** Version of the scene format that `saveScene` writes. When changing the format, bump this and add a migration from the previous version to `sceneMigrations`. */
+const SCENE_SCHEMA_VERSION = 8;
+
+/** Geometry of a saved shape. Unlike the `add*` methods, rectangle `width` and `height` are full sizes, same as in `ShapeContentData`. */
+type SimuloSavedShape = {
+    type: "rectangle";
+    width: number;
+    height: number;
+} | {
+    type: "circle";
+    radius: number;
+} | {
+    type: "polygon";
+    points: { x: number, y: number }[];
+} | {
+    type: "compound";
+    children: SimuloCompoundChild[];
+};
+
+interface SimuloSavedObject {
+    data: SimuloObjectData;
+    shape: SimuloSavedShape;
+    position: { x: number, y: number };
+    angle: number;
+    linearVelocity: { x: number, y: number };
+    angularVelocity: number;
+    isStatic: boolean;
+    friction: number;
+    restitution: number;
+    density: number;
+    gravityScale: number;
+}
+
+/** Springs attached to objects by ID. An end with a `null` body is fixed in the world, and its anchor is in world space. */
+interface SimuloSavedSpring {
+    id: string;
+    bodyA: string | null;
+    bodyB: string | null;
+    localAnchorA: { x: number, y: number };
+    localAnchorB: { x: number, y: number };
+    stiffness: number;
+    damping: number;
+    targetLength: number;
+}
+
+type SimuloSavedJoint = SimuloJointDesc & { id: string };
+
+type SimuloSavedGravityField = SimuloGravityFieldDesc & { id: string };
+
+type SimuloSavedThruster = SimuloThrusterDesc & { id: string };
+
+/** Portable JSON document with a whole physics world */
+interface SimuloScene {
+    schemaVersion: number;
+    details: SimuloItemDetails;
+    gravity: { x: number, y: number };
+    /** ID counters, so new objects in a loaded scene don't collide with saved ones */
+    currentIDs: { [container: string]: number };
+    containers: SimuloContainerData[];
+    objects: SimuloSavedObject[];
+    springs: SimuloSavedSpring[];
+    joints: SimuloSavedJoint[];
+    /** Pairs of objects that don't collide with each other */
+    noCollide: [objectA: string, objectB: string][];
+    gravityFields: SimuloSavedGravityField[];
+    particles: SimuloParticleDesc[];
+    thrusters: SimuloSavedThruster[];
+}
+
+/** Contents of one container, saved with `saveContainer` and loaded into a new container with `loadGroup`. */
+interface SimuloSavedGroup {
+    /** The saved container itself, followed by any containers nested in it */
+    containers: SimuloContainerData[];
+    /** ID counters of the saved container and the ones nested in it */
+    currentIDs: { [container: string]: number };
+    objects: SimuloSavedObject[];
+    springs: SimuloSavedSpring[];
+    joints: SimuloSavedJoint[];
+    noCollide: [objectA: string, objectB: string][];
+    thrusters: SimuloSavedThruster[];
+}
+
+/** Functions that upgrade a scene from the version they're keyed by to the next version. */
+const sceneMigrations: { [fromVersion: number]: (scene: any) => any } = {
+    // version 2 added containers
+    1: (scene) => ({ ...scene, containers: [] }),
+    // version 3 added joints
+    2: (scene) => ({ ...scene, joints: [] }),
+    // version 4 added compound objects, which older scenes can't have
+    3: (scene) => scene,
+    // version 5 added collision layers and no-collide pairs
+    4: (scene) => ({
+        ...scene,
+        objects: scene.objects.map((object: any) => ({ ...object, data: { ...object.data, layers: ["default"] } })),
+        noCollide: []
+    }),
+    // version 6 added gravity scale and gravity fields
+    5: (scene) => ({
+        ...scene,
+        objects: scene.objects.map((object: any) => ({ ...object, gravityScale: 1 })),
+        gravityFields: []
+    }),
+    // version 7 added particles
+    6: (scene) => ({ ...scene, particles: [] }),
+    // version 8 added thrusters
+    7: (scene) => ({ ...scene, thrusters: [] }),
+};
+
+/** Upgrade a scene of any older version to `SCENE_SCHEMA_VERSION` by running migrations in order. */
+function migrateScene(scene: any): SimuloScene {
+    if (typeof scene !== "object" || scene === null || typeof scene.schemaVersion !== "number") {
+        throw new Error("Not a Simulo scene");
+    }
+    if (scene.schemaVersion > SCENE_SCHEMA_VERSION) {
+        throw new Error("Scene version " + scene.schemaVersion + " is newer than supported version " + SCENE_SCHEMA_VERSION);
+    }
+    while (scene.schemaVersion < SCENE_SCHEMA_VERSION) {
+        let migration = sceneMigrations[scene.schemaVersion];
+        if (!migration) {
+            throw new Error("No migration for scene version " + scene.schemaVersion);
+        }
+        let fromVersion = scene.schemaVersion;
+        scene = migration(scene);
+        scene.schemaVersion = fromVersion + 1;
+    }
+    return scene as SimuloScene;
+}
+
+export default SimuloScene;
+export { SCENE_SCHEMA_VERSION, sceneMigrations, migrateScene };
+export type { SimuloSavedShape, SimuloSavedObject, SimuloSavedSpring, SimuloSavedJoint, SimuloSavedGravityField, SimuloSavedThruster, SimuloSavedGroup };
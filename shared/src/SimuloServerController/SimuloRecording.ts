@@ -0,0 +1,20 @@
+/** Incoming client event, recorded with the tick it was handled before */
+interface SimuloRecordedEvent {
+    tick: number;
+    event: string;
+    data: any;
+    /** ID of the client that sent it */
+    id: string;
+}
+
+/** Everything needed to replay a session on a fresh `SimuloServerController` and get the same world, made with `startRecording` and `stopRecording` */
+export default interface SimuloRecording {
+    /** Seed the recorded controller was created with */
+    seed: number;
+    timestep: number;
+    /** Fixed updates run in each tick. Frames run a different number of them depending on how late they are, so this is needed to replay the same steps. */
+    tickSteps: number[];
+    events: SimuloRecordedEvent[];
+};
+
+export type { SimuloRecordedEvent };
@@ -1,11 +1,35 @@
 import SimuloServerPlugin from "../SimuloServerPlugin";
+import SimuloRandom from "../SimuloRandom";
+import type SimuloRecording from "./SimuloRecording";
 
 /** Simulo "clienthost" or dedicated game server, NOT a web server. */
 
 export default class SimuloServerController {
-    /** Measured in frames per second, NOT in format like `1000 / 60` */
+    /** How often `update` runs on plugins. Measured in frames per second, NOT in format like `1000 / 60` */
     frameRate: number;
 
+    /** Seconds of simulated time per `fixedUpdate`. Fixed updates run at this rate no matter how late frames are, up to `maxCatchUpSteps` per frame. */
+    timestep: number = 1 / 60;
+    /** Most fixed updates to run in one frame. If a frame is so late that more are needed, the rest of the time is dropped and the simulation slows down instead of freezing. */
+    maxCatchUpSteps: number = 8;
+    /** How fast simulated time passes compared to real time, like `0.5` for slow motion or `2` for fast forward */
+    timeScale: number = 1;
+    /** While paused, fixed updates only run when requested with `advance` */
+    paused: boolean = false;
+    /** Seconds of simulated time that haven't been stepped yet */
+    private accumulator: number = 0;
+    /** Steps requested with `advance` that haven't run yet */
+    private pendingSteps: number = 0;
+    private lastFrameTime: number | null = null;
+
+    /** Seed `random` was created with */
+    readonly seed: number;
+    /** Use this instead of `Math.random` for anything that changes the world, so recordings replay the same way */
+    random: SimuloRandom;
+    /** Frames run so far, including ones that ran no fixed updates */
+    tick: number = 0;
+    private recording: SimuloRecording | null = null;
+
     plugins: SimuloServerPlugin[] = [];
     /** Register a plugin to have event handlers called on it.
      * 
@@ -28,12 +52,126 @@ export default class SimuloServerController {
             plugin.update();
         }
     }
+    runFixedUpdates(dt: number) {
+        for (let plugin of this.plugins) {
+            if (plugin.fixedUpdate) {
+                plugin.fixedUpdate(dt);
+            }
+        }
+    }
+
+    setTimeScale(timeScale: number) {
+        if (!isFinite(timeScale) || timeScale < 0) {
+            throw new Error('Time scale must be a positive number');
+        }
+        this.timeScale = timeScale;
+    }
+    pause() {
+        this.paused = true;
+    }
+    resume() {
+        this.paused = false;
+    }
+    /** Run some fixed updates on the next frames, even while paused. Usually used to step through a paused simulation. */
+    advance(steps: number = 1) {
+        this.pendingSteps += Math.max(0, Math.floor(steps));
+    }
+
+    /** Run the fixed updates that are due since the last frame, then `update` once. Called by the loop, but can be called manually with the current time in ms. */
+    runFrame(now: number) {
+        let elapsed = this.lastFrameTime === null ? 0 : (now - this.lastFrameTime) / 1000;
+        this.lastFrameTime = now;
+
+        let steps = 0;
+        if (!this.paused) {
+            this.accumulator += elapsed * this.timeScale;
+            while (this.accumulator >= this.timestep && steps < this.maxCatchUpSteps) {
+                this.accumulator -= this.timestep;
+                steps++;
+            }
+            if (this.accumulator >= this.timestep) {
+                // too far behind to catch up, so we drop the time instead of spiraling
+                this.accumulator = 0;
+            }
+        }
+        else {
+            this.accumulator = 0;
+        }
+        while (this.pendingSteps > 0 && steps < this.maxCatchUpSteps) {
+            this.pendingSteps--;
+            steps++;
+        }
+
+        this.runTick(steps);
+    }
+
+    /** Run some fixed updates, then `update` once. This is the only part of a frame that changes the world, so it's what gets recorded. */
+    private runTick(steps: number) {
+        for (let i = 0; i < steps; i++) {
+            this.runFixedUpdates(this.timestep);
+        }
+        this.runUpdates();
+        if (this.recording) {
+            this.recording.tickSteps.push(steps);
+        }
+        this.tick++;
+    }
+
+    /** Record incoming events and fixed updates from now on. Has to start before the first tick, since replays start from a fresh world. */
+    startRecording() {
+        if (this.tick > 0) {
+            throw new Error('Recording has to start before the first tick');
+        }
+        this.recording = {
+            seed: this.seed,
+            timestep: this.timestep,
+            tickSteps: [],
+            events: []
+        };
+    }
+    /** Stop recording and get the recording, or `null` if it wasn't recording */
+    stopRecording(): SimuloRecording | null {
+        let recording = this.recording;
+        this.recording = null;
+        return recording;
+    }
+
+    /** Run a recording as fast as possible, instead of starting the loop. The controller should be fresh, created with the recording's seed, and have the same plugins as the recorded one. */
+    replay(recording: SimuloRecording) {
+        if (this.tick > 0) {
+            throw new Error('Replays need a fresh controller');
+        }
+        if (this.seed !== recording.seed) {
+            throw new Error('Controller was created with seed ' + this.seed + ', but the recording needs seed ' + recording.seed);
+        }
+        this.timestep = recording.timestep;
+        this.runStarts();
+
+        let eventIndex = 0;
+        let handleEvents = (tick: number) => {
+            while (eventIndex < recording.events.length && recording.events[eventIndex].tick <= tick) {
+                let recorded = recording.events[eventIndex];
+                this.handleIncomingEvent(recorded.event, recorded.data, recorded.id);
+                eventIndex++;
+            }
+        };
+        recording.tickSteps.forEach((steps, tick) => {
+            handleEvents(tick);
+            this.runTick(steps);
+        });
+        // events after the last tick
+        handleEvents(Infinity);
+    }
     destroy() {
         for (let plugin of this.plugins) {
             plugin.destroy();
         }
     }
     handleIncomingEvent(event: string, data: any, id: string) {
+        if (this.recording) {
+            // copied, since plugins can change the data
+            this.recording.events.push({ tick: this.tick, event, data: data === undefined ? undefined : JSON.parse(JSON.stringify(data)), id });
+        }
         for (let plugin of this.plugins) {
             plugin.handleIncomingEvent(event, data, id);
         }
@@ -76,8 +214,9 @@ export default class SimuloServerController {
     startLoop() {
         this.runStarts();
 
+        this.lastFrameTime = null;
         this.loopInterval = setInterval(() => {
-            this.runUpdates();
+            this.runFrame(performance.now());
         }, 1000 / this.frameRate);
     }
 
@@ -88,7 +227,10 @@ export default class SimuloServerController {
         }
     }
 
-    constructor(frameRate: number = 60) {
+    /** `seed` is random by default. Pass one to get the same random numbers every time, like when replaying a recording. */
+    constructor(frameRate: number = 60, seed: number = Math.floor(Math.random() * 0x100000000)) {
         this.frameRate = frameRate;
+        this.seed = seed;
+        this.random = new SimuloRandom(seed);
     }
 }
\ No newline at end of file
@@ -8,6 +8,8 @@ export default interface SimuloServerPlugin extends SimuloItemDetails {
     start(): any;
     /** Called when the method of the same name is called on `ServerController`. */
     update(): any;
+    /** Called at a fixed rate of simulated time with the timestep in seconds, which can run several times per `update` or not at all, depending on time scale and pausing. Use this for simulation, and `update` for everything else. */
+    fixedUpdate?(dt: number): any;
     /** Called when the plugin is removed or the method of the same name is called on `ServerController`. */
     destroy(): any;
     /** Called when the method of the same name is called on `ServerController`.
@@ -0,0 +1,36 @@
+import type { SimuloPhysicsSnapshot } from "./SimuloPhysicsServer";
+
+/** Ring buffer of physics snapshots by tick, for rewinding the last few seconds. When it's full, the oldest snapshot is dropped. */
+export default class SimuloSnapshotBuffer {
+    /** Most snapshots to keep */
+    capacity: number;
+    /** Oldest first */
+    private entries: { tick: number, snapshot: SimuloPhysicsSnapshot }[] = [];
+
+    constructor(capacity: number = 20) {
+        this.capacity = capacity;
+    }
+
+    /** Store a snapshot. Snapshots at or after `tick` are from a timeline that was rewound, so they're replaced. */
+    push(tick: number, snapshot: SimuloPhysicsSnapshot) {
+        this.entries = this.entries.filter((entry) => entry.tick < tick);
+        this.entries.push({ tick, snapshot });
+        if (this.entries.length > this.capacity) {
+            this.entries.shift();
+        }
+    }
+
+    /** Snapshot stored at exactly `tick`, or `null` if there isn't one */
+    get(tick: number): SimuloPhysicsSnapshot | null {
+        return this.entries.find((entry) => entry.tick === tick)?.snapshot ?? null;
+    }
+
+    /** Ticks that have a snapshot, oldest first */
+    getTicks(): number[] {
+        return this.entries.map((entry) => entry.tick);
+    }
+
+    clear() {
+        this.entries = [];
+    }
+}
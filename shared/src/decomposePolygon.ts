@@ -0,0 +1,193 @@
+type Point = { x: number, y: number };
+
+const EPSILON = 1e-9;
+
+function cross(o: Point, a: Point, b: Point): number {
+    return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/** Twice the signed area of a polygon, positive if the points are counter-clockwise */
+function signedArea(points: Point[]): number {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+        let a = points[i];
+        let b = points[(i + 1) % points.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return area;
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+    let d1 = cross(c, d, a);
+    let d2 = cross(c, d, b);
+    let d3 = cross(a, b, c);
+    let d4 = cross(a, b, d);
+    if (((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+        ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON))) {
+        return true;
+    }
+    // touching or overlapping segments count as intersecting too
+    let onSegment = (p: Point, q: Point, r: Point) => Math.min(p.x, q.x) - EPSILON <= r.x && r.x <= Math.max(p.x, q.x) + EPSILON &&
+        Math.min(p.y, q.y) - EPSILON <= r.y && r.y <= Math.max(p.y, q.y) + EPSILON;
+    return (Math.abs(d1) <= EPSILON && onSegment(c, d, a)) ||
+        (Math.abs(d2) <= EPSILON && onSegment(c, d, b)) ||
+        (Math.abs(d3) <= EPSILON && onSegment(a, b, c)) ||
+        (Math.abs(d4) <= EPSILON && onSegment(a, b, d));
+}
+
+/** Whether any two edges of a polygon that aren't next to each other cross or touch */
+function isSelfIntersecting(points: Point[]): boolean {
+    let n = points.length;
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            // edges that share a point
+            if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+            if (segmentsIntersect(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+function isInTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+    return cross(a, b, p) >= -EPSILON && cross(b, c, p) >= -EPSILON && cross(c, a, p) >= -EPSILON;
+}
+
+/** Split a counter-clockwise polygon into triangles by clipping ears. Returns indices into `points`.
+ *
+ * The remaining outline is a linked list, so clipping an ear doesn't shift arrays, and only reflex points are checked against ears, since convex points can't be inside one. */
+function triangulate(points: Point[]): number[][] {
+    let count = points.length;
+    let prev = points.map((_, i) => (i + count - 1) % count);
+    let next = points.map((_, i) => (i + 1) % count);
+    let turn = (i: number) => cross(points[prev[i]], points[i], points[next[i]]);
+    let reflex = new Set<number>();
+    points.forEach((_, i) => {
+        if (turn(i) < -EPSILON) reflex.add(i);
+    });
+    let isEar = (i: number) => {
+        for (let other of reflex) {
+            if (other === prev[i] || other === i || other === next[i]) continue;
+            if (isInTriangle(points[other], points[prev[i]], points[i], points[next[i]])) return false;
+        }
+        return true;
+    };
+
+    let triangles: number[][] = [];
+    let current = 0;
+    // points checked since the last clip, so we know when we've gone all the way around without finding an ear
+    let checked = 0;
+    while (count > 3) {
+        let currentTurn = turn(current);
+        // collinear points don't add any area, so they're clipped without a triangle
+        let collinear = Math.abs(currentTurn) <= EPSILON;
+        if (collinear || (currentTurn > 0 && isEar(current))) {
+            if (!collinear) {
+                triangles.push([prev[current], current, next[current]]);
+            }
+            let before = prev[current];
+            let after = next[current];
+            next[before] = after;
+            prev[after] = before;
+            reflex.delete(current);
+            count--;
+            // neighbours of an ear can only get more convex
+            [before, after].forEach((neighbour) => {
+                if (reflex.has(neighbour) && turn(neighbour) >= -EPSILON) reflex.delete(neighbour);
+            });
+            // the point before might have just become an ear
+            current = before;
+            checked = 0;
+        }
+        else {
+            current = next[current];
+            checked++;
+            if (checked > count) {
+                throw new Error('Failed to decompose polygon');
+            }
+        }
+    }
+    if (Math.abs(turn(current)) > EPSILON) {
+        triangles.push([prev[current], current, next[current]]);
+    }
+    return triangles;
+}
+
+/** Join two pieces along the edge from `start` to `end` of `a`, which `b` has the other way around. Returns `null` if the result wouldn't be convex. */
+function mergePieces(a: number[], b: number[], start: number, end: number, points: Point[]): number[] | null {
+    let i = a.indexOf(start);
+    let j = b.indexOf(end);
+    // goes around `a` from `end` to `start`, then around `b` back to just before `end`
+    let merged: number[] = [];
+    for (let k = 1; k <= a.length; k++) {
+        merged.push(a[(i + k) % a.length]);
+    }
+    for (let k = 2; k < b.length; k++) {
+        merged.push(b[(j + k) % b.length]);
+    }
+    // both pieces are convex, so only the corners at the ends of the removed edge can be concave
+    let isConvexAt = (index: number) => cross(
+        points[merged[(index + merged.length - 1) % merged.length]],
+        points[merged[index]],
+        points[merged[(index + 1) % merged.length]]
+    ) >= -EPSILON;
+    return isConvexAt(0) && isConvexAt(a.length - 1) ? merged : null;
+}
+
+/** Split a simple (non-self-intersecting) polygon into convex pieces, for physics engines that only support convex shapes.
+ *
+ * Triangulates with ear clipping, then removes diagonals between triangles in one pass where the pieces stay convex (Hertel-Mehlhorn), so convex input comes back as one piece. Takes a few milliseconds for hundreds of points. Throws if the polygon intersects itself or has no area. */
+function decomposePolygon(input: Point[]): Point[][] {
+    // duplicate points would make zero length edges
+    let points = input.filter((point, i) => {
+        let next = input[(i + 1) % input.length];
+        return input.length < 2 || Math.abs(point.x - next.x) > EPSILON || Math.abs(point.y - next.y) > EPSILON;
+    });
+    if (points.length < 3) {
+        throw new Error('Polygon needs at least 3 points');
+    }
+    if (isSelfIntersecting(points)) {
+        throw new Error('Polygon intersects itself');
+    }
+    let area = signedArea(points);
+    if (Math.abs(area) <= EPSILON) {
+        throw new Error('Polygon has no area');
+    }
+    if (area < 0) {
+        points = points.slice().reverse();
+    }
+
+    // go through the diagonals of the triangulation once, and remove each one that leaves a convex piece
+    let triangles = triangulate(points);
+    let pieces: (number[] | null)[] = [...triangles];
+    /** Piece each edge belongs to, by `start,end` */
+    let owners = new Map<string, number>();
+    triangles.forEach((triangle, piece) => {
+        triangle.forEach((start, k) => owners.set(start + ',' + triangle[(k + 1) % 3], piece));
+    });
+    triangles.forEach((triangle) => {
+        triangle.forEach((start, k) => {
+            let end = triangle[(k + 1) % 3];
+            let a = owners.get(start + ',' + end);
+            let b = owners.get(end + ',' + start);
+            // outline edges have no piece on the other side
+            if (a === undefined || b === undefined || a === b) return;
+            let merged = mergePieces(pieces[a]!, pieces[b]!, start, end, points);
+            if (!merged) return;
+            owners.delete(start + ',' + end);
+            owners.delete(end + ',' + start);
+            let absorbed = pieces[b]!;
+            absorbed.forEach((point, m) => {
+                let key = point + ',' + absorbed[(m + 1) % absorbed.length];
+                if (owners.has(key)) owners.set(key, a!);
+            });
+            pieces[a] = merged;
+            pieces[b] = null;
+        });
+    });
+    return pieces.filter((piece): piece is number[] => piece !== null).map((piece) => piece.map((index) => ({ x: points[index].x, y: points[index].y })));
+}
+
+export default decomposePolygon;
+export { isSelfIntersecting };
@@ -1,8 +1,11 @@
 import type SimuloServerPlugin from "../SimuloServerPlugin";
 import type SimuloServerController from "../SimuloServerController";
-import SimuloPhysicsServerRapier, { SimuloPhysicsStepInfo } from "../SimuloPhysicsServerRapier";
+import SimuloPhysicsServerRapier from "../SimuloPhysicsServerRapier";
+import type SimuloPhysicsServer from "../SimuloPhysicsServer";
+import type { SimuloPhysicsStepInfo } from "../SimuloPhysicsServer";
+import SimuloSnapshotBuffer from "../SimuloSnapshotBuffer";
 
-/** SimuloPhysicsServerRapier as a plugin, which is a rapier physics wrapper that also adds springs */
+/** A `SimuloPhysicsServer` as a plugin. Uses SimuloPhysicsServerRapier, a rapier physics wrapper that also adds springs, unless another backend is passed in */
 
 export default class SimuloPhysicsPlugin implements SimuloServerPlugin {
     name = "Simulo Physics Plugin";
@@ -13,24 +16,93 @@ export default class SimuloPhysicsPlugin implements SimuloServerPlugin {
     id = "simulo-physics-plugin";
     dependencies = [];
     controller: SimuloServerController;
-    physicsServer: SimuloPhysicsServerRapier;
-    previousStepInfo: SimuloPhysicsStepInfo | null = null;
+    physicsServer: SimuloPhysicsServer;
+    /** Physics steps per fixed update. More substeps make fast objects and stiff springs more stable, but cost more. */
+    substeps: number = 1;
+    /** Everything that changed in the steps since the last `takeStepInfo` */
+    private pendingStepInfo: SimuloPhysicsStepInfo | null = null;
+    /** Fixed updates run so far. Unlike `SimuloServerController.tick`, this goes back when rewinding. */
+    tick: number = 0;
+    /** A snapshot is taken every this many ticks, so the world can be rewound to it. `0` disables snapshots. */
+    snapshotInterval: number = 30;
+    /** Recent snapshots. With the default interval and capacity, this covers the last 10 seconds. */
+    snapshots: SimuloSnapshotBuffer = new SimuloSnapshotBuffer(20);
 
-    constructor(controller: SimuloServerController) {
+    constructor(controller: SimuloServerController, physicsServer: SimuloPhysicsServer = new SimuloPhysicsServerRapier()) {
         this.controller = controller;
-        this.physicsServer = new SimuloPhysicsServerRapier();
+        this.physicsServer = physicsServer;
     }
     async init() {
+        this.physicsServer.random = this.controller.random.next;
         await this.physicsServer.init();
     }
     start(): void {
         console.log("start");
+        if (this.snapshotInterval > 0) {
+            this.snapshots.push(this.tick, this.physicsServer.takeSnapshot());
+        }
     }
-    update(): void {
-        let stepInfo = this.physicsServer.step();
-        // physics plugin doesnt directly emit data, instead it should be before other plugins in execution order
-        // plugins can then use previousStepInfo to get physics data, and send all data in one packet
-        this.previousStepInfo = stepInfo;
+    update(): void { }
+    fixedUpdate(dt: number): void {
+        for (let i = 0; i < this.substeps; i++) {
+            let stepInfo = this.physicsServer.step(dt / this.substeps);
+            // physics plugin doesnt directly emit data, instead it should be before other plugins in execution order
+            // plugins can then use takeStepInfo to get physics data, and send all data in one packet
+            this.pendingStepInfo = this.pendingStepInfo ? this.mergeStepInfo(this.pendingStepInfo, stepInfo) : stepInfo;
+        }
+        this.tick++;
+        if (this.snapshotInterval > 0 && this.tick % this.snapshotInterval === 0) {
+            this.snapshots.push(this.tick, this.physicsServer.takeSnapshot());
+        }
+    }
+
+    /** Restore the world to a tick that has a snapshot. Returns `false` if there is no snapshot for that tick.
+     * 
+     * Snapshots after the tick are kept until the world passes them again, so you can scrub back and forth. Clients need the whole world sent again afterwards. */
+    rewindTo(tick: number): boolean {
+        let snapshot = this.snapshots.get(tick);
+        if (!snapshot) return false;
+        this.physicsServer.restoreSnapshot(snapshot);
+        this.tick = tick;
+        // changes from before the rewind don't apply anymore
+        this.pendingStepInfo = null;
+        return true;
+    }
+
+    /** Get everything that changed since this was last called, or `null` if physics hasn't stepped since then */
+    takeStepInfo(): SimuloPhysicsStepInfo | null {
+        let stepInfo = this.pendingStepInfo;
+        this.pendingStepInfo = null;
+        return stepInfo;
+    }
+
+    /** Combine two step infos in order, so they can be sent as one */
+    private mergeStepInfo(previous: SimuloPhysicsStepInfo, next: SimuloPhysicsStepInfo): SimuloPhysicsStepInfo {
+        let shapeContent = { ...previous.delta.shapeContent };
+        let shapeTransforms = { ...previous.delta.shapeTransforms };
+        // clients remove shapes before adding them, so shapes created and then removed between sends shouldn't be sent at all
+        next.delta.removed.forEach((id) => {
+            delete shapeContent[id];
+            delete shapeTransforms[id];
+        });
+        return {
+            delta: {
+                shapeContent: { ...shapeContent, ...next.delta.shapeContent },
+                shapeTransforms: { ...shapeTransforms, ...next.delta.shapeTransforms },
+                keyframe: previous.delta.keyframe || next.delta.keyframe,
+                removed: previous.delta.removed.concat(next.delta.removed.filter((id) => !previous.delta.removed.includes(id))),
+            },
+            ms: previous.ms + next.ms,
+            springs: next.springs,
+            joints: next.joints,
+            thrusters: next.thrusters,
+            particles: {
+                positions: next.particles.positions,
+                // colors and radii are only sent when particles change, so the latest ones still apply
+                colors: next.particles.colors ?? previous.particles.colors,
+                radii: next.particles.radii ?? previous.particles.radii
+            }
+        };
     }
     destroy(): void {
         console.log("destroy");
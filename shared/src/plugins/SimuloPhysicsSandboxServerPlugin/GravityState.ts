@@ -0,0 +1,7 @@
+import type { SimuloGravityFieldDesc } from "../../SimuloPhysicsServer"
+
+/** Global gravity and gravity fields. Sent to all clients with `gravity_state` whenever they change. */
+export default interface GravityState {
+    gravity: { x: number, y: number },
+    fields: (SimuloGravityFieldDesc & { id: string })[]
+};
@@ -1,4 +1,4 @@
-import type { ShapeTransformData } from "../../SimuloPhysicsServerRapier";
+import type { ShapeTransformData } from "../../SimuloPhysicsServer";
 
 export default interface OverlayText {
     text: string,
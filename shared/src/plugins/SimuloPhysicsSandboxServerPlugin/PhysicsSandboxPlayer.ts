@@ -7,5 +7,15 @@ export default interface PhysicsSandboxPlayer {
     color: number;
     /** If primary input is held down, usually left mouse */
     down: boolean;
+    /** If secondary input is held down, usually right mouse */
+    secondaryDown: boolean;
+    /** If middle input is held down, usually the mouse wheel button */
+    middleDown: boolean;
+    shift: boolean;
+    /** Also set by command on macOS */
+    ctrl: boolean;
+    alt: boolean;
+    /** Keys held down, by `KeyboardEvent.key` */
+    keys: string[];
     tool: string; // everyone always has a tool selected
 }
\ No newline at end of file
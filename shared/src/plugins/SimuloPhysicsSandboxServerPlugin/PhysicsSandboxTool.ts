@@ -1,20 +1,79 @@
 import type PhysicsSandboxPlayer from "./PhysicsSandboxPlayer";
 import type SimuloPhysicsSandboxServerPlugin from ".";
 
+/** Each player gets their own instance of each tool they use, so tools can keep state like a drag spring or a start point in fields without players overwriting each other's. */
 export default interface PhysicsSandboxTool {
     name: string;
     description: string;
     icon: string;
     /** Ask for this in constructor. */
     physicsSandbox: SimuloPhysicsSandboxServerPlugin;
+    /** Settings players can change in the client's settings panel. Each needs a value in `optionValues` under the same name. */
+    options?: { [field: string]: PhysicsSandboxToolOption };
+    /** Current value of each option, which the tool reads its settings from. The starting values are the defaults. */
+    optionValues?: { [field: string]: PhysicsSandboxToolOptionValue };
     /** When player presses down primary input with this tool selected */
     playerDown(player: PhysicsSandboxPlayer): void;
     /** When player moves with this tool selected, regardless of primary input. You should usually check if player.down is true before doing anything. */
     playerMove(player: PhysicsSandboxPlayer): void;
     /** When player releases primary input with this tool selected, or when they switch tools or leave the room while holding down primary input */
     playerUp(player: PhysicsSandboxPlayer): void;
+    /** When player presses down secondary input with this tool selected, usually right mouse */
+    playerSecondaryDown?(player: PhysicsSandboxPlayer): void;
+    /** When player releases secondary input with this tool selected */
+    playerSecondaryUp?(player: PhysicsSandboxPlayer): void;
+    /** When player presses down middle input with this tool selected */
+    playerMiddleDown?(player: PhysicsSandboxPlayer): void;
+    /** When player releases middle input with this tool selected */
+    playerMiddleUp?(player: PhysicsSandboxPlayer): void;
+    /** When player scrolls with this tool selected. Positive `delta` is scrolling down, in pixels. */
+    playerScroll?(player: PhysicsSandboxPlayer, delta: number): void;
+    /** When player presses a key with this tool selected, by `KeyboardEvent.key`. Modifiers are already set on the player. */
+    playerKeyDown?(player: PhysicsSandboxPlayer, key: string): void;
+    /** When player releases a key with this tool selected */
+    playerKeyUp?(player: PhysicsSandboxPlayer, key: string): void;
     /** Fires on world update.
      * 
      * If your tool renders custom overlays on screen, you should re-add them each time with `physicsSandbox.addOverlayShape` and `physicsSandbox.addOverlayText`. We server-side render tools, and those overlays will be sent to all clients. */
     update(player: PhysicsSandboxPlayer): void;
-}
\ No newline at end of file
+}
+
+/** A setting of a tool. The sandbox checks values against this before setting them, so tools can trust their option fields. */
+type PhysicsSandboxToolOption = {
+    type: "number";
+    name: string;
+    min: number;
+    max: number;
+    /** Values have to be `min` plus a whole number of steps. Any value between `min` and `max` if not set. */
+    step?: number;
+} | {
+    type: "boolean";
+    name: string;
+} | {
+    /** Color number like 0xffffff */
+    type: "color";
+    name: string;
+} | {
+    type: "enum";
+    name: string;
+    values: string[];
+    /** Names to show for each value, if they aren't readable on their own */
+    labels?: string[];
+};
+
+type PhysicsSandboxToolOptionValue = number | boolean | string;
+
+/** A tool as sent to clients in the tool list */
+interface PhysicsSandboxToolInfo {
+    id: string;
+    name: string;
+    icon: string;
+    description: string;
+    /** Options with the values the receiving player has set, or the defaults */
+    options: { [field: string]: PhysicsSandboxToolOption & { value: PhysicsSandboxToolOptionValue } };
+}
+
+/** Class of a tool, which the sandbox creates an instance of for each player */
+type PhysicsSandboxToolClass = new (physicsSandbox: SimuloPhysicsSandboxServerPlugin) => PhysicsSandboxTool;
+
+export type { PhysicsSandboxToolClass, PhysicsSandboxToolOption, PhysicsSandboxToolOptionValue, PhysicsSandboxToolInfo };
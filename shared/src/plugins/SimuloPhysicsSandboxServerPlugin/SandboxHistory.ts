@@ -0,0 +1,74 @@
+/** A change to the world that can be undone and redone. Objects can be removed by other players in the meantime, so commands shouldn't throw if what they change is gone. */
+interface SandboxCommand {
+    undo(): void;
+    redo(): void;
+}
+
+/** Undo and redo history of one player. Commands recorded between `begin` and `end` are undone together, like all the cubes from one click of the cubes tool. */
+export default class SandboxHistory {
+    /** Most actions to keep. The oldest ones are forgotten first. */
+    maxLength: number;
+    private undoStack: SandboxCommand[][] = [];
+    private redoStack: SandboxCommand[][] = [];
+    /** Commands of the action in progress, or `null` if there isn't one */
+    private group: SandboxCommand[] | null = null;
+
+    constructor(maxLength: number = 100) {
+        this.maxLength = maxLength;
+    }
+
+    /** Start an action, usually when the player presses down */
+    begin() {
+        this.end();
+        this.group = [];
+    }
+    /** Finish the current action, if there is one */
+    end() {
+        if (this.group && this.group.length > 0) {
+            this.push(this.group);
+        }
+        this.group = null;
+    }
+
+    /** Add a command that was already done. Outside of an action, it's undone on its own. */
+    record(command: SandboxCommand) {
+        this.redoStack = [];
+        if (this.group) {
+            this.group.push(command);
+        }
+        else {
+            this.push([command]);
+        }
+    }
+
+    private push(group: SandboxCommand[]) {
+        this.undoStack.push(group);
+        if (this.undoStack.length > this.maxLength) {
+            this.undoStack.shift();
+        }
+    }
+
+    /** Undo the last action. Returns false if there was nothing to undo. */
+    undo(): boolean {
+        this.end();
+        let group = this.undoStack.pop();
+        if (!group) return false;
+        for (let i = group.length - 1; i >= 0; i--) {
+            group[i].undo();
+        }
+        this.redoStack.push(group);
+        return true;
+    }
+
+    /** Redo the last undone action. Returns false if there was nothing to redo. */
+    redo(): boolean {
+        this.end();
+        let group = this.redoStack.pop();
+        if (!group) return false;
+        group.forEach((command) => command.redo());
+        this.undoStack.push(group);
+        return true;
+    }
+}
+
+export type { SandboxCommand };
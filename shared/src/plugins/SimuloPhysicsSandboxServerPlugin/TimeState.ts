@@ -0,0 +1,6 @@
+/** Simulation speed controls. Sent to all clients with `time_state` whenever they change. */
+export default interface TimeState {
+    /** How fast simulated time passes compared to real time */
+    timeScale: number,
+    paused: boolean
+};
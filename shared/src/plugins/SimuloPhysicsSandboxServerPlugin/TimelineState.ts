@@ -0,0 +1,7 @@
+/** Rewind controls. Sent with every world update, since the tick changes all the time. */
+export default interface TimelineState {
+    /** Physics ticks run so far, see `SimuloPhysicsPlugin.tick` */
+    tick: number,
+    /** Ticks that can be rewound to with `rewind_to`, oldest first */
+    snapshots: number[]
+};
@@ -0,0 +1,21 @@
+import type { ShapeContentData, ShapeTransformData, SimuloSpringInfo, SimuloJointInfo, SimuloThrusterInfo, SimuloParticleData } from "../../SimuloPhysicsServer"
+import type TimeState from "./TimeState"
+import type GravityState from "./GravityState"
+import type { PhysicsSandboxToolInfo } from "./PhysicsSandboxTool"
+import type TimelineState from "./TimelineState"
+
+/** Everything a client needs to build the world from scratch, sent to clients when they connect. */
+export default interface WorldSnapshot {
+    shapeContent: { [id: string]: ShapeContentData },
+    shapeTransforms: { [id: string]: ShapeTransformData },
+    springs: SimuloSpringInfo[],
+    joints: SimuloJointInfo[],
+    thrusters: SimuloThrusterInfo[],
+    tools: PhysicsSandboxToolInfo[],
+    /** Tool the receiving player has selected */
+    tool: string,
+    time: TimeState,
+    gravity: GravityState,
+    timeline: TimelineState,
+    particles: SimuloParticleData
+};
@@ -1,10 +1,12 @@
-import type { SimuloPhysicsStepInfo } from "../../SimuloPhysicsServerRapier"
+import type { SimuloPhysicsStepInfo } from "../../SimuloPhysicsServer"
 import type OverlayShape from "./OverlayShape"
 import type OverlayText from "./OverlayText"
+import type TimelineState from "./TimelineState"
 
 export default interface WorldUpdate extends SimuloPhysicsStepInfo {
     overlays: {
         shapes: OverlayShape[],
         texts: OverlayText[]
-    }
+    },
+    timeline: TimelineState
 };
\ No newline at end of file
@@ -2,17 +2,107 @@ import type SimuloServerPlugin from "../../SimuloServerPlugin";
 import type SimuloServerController from "../../SimuloServerController";
 import type SimuloPhysicsPlugin from "../SimuloPhysicsPlugin";
 import type PhysicsSandboxPlayer from "./PhysicsSandboxPlayer";
-import PhysicsSandboxTool from "./PhysicsSandboxTool";
+import type PhysicsSandboxTool from "./PhysicsSandboxTool";
+import type { PhysicsSandboxToolClass, PhysicsSandboxToolOption, PhysicsSandboxToolInfo } from "./PhysicsSandboxTool";
 
 import DragTool from "./tools/DragTool";
 import CubesTool from "./tools/CubesTool";
-import type { SimuloPhysicsStepInfo } from "../../SimuloPhysicsServerRapier";
+import type { SimuloPhysicsStepInfo, SimuloCollisionEvent, SimuloObjectProperties, SimuloGravityFieldDesc, SimuloJointDesc, SimuloThrusterDesc } from "../../SimuloPhysicsServer";
+import type { SimuloSavedObject, SimuloSavedSpring, SimuloSavedJoint, SimuloSavedThruster } from "../../SimuloScene";
 
 import type WorldUpdate from "./WorldUpdate";
+import type WorldSnapshot from "./WorldSnapshot";
 import type OverlayShape from "./OverlayShape";
 import type OverlayText from "./OverlayText";
+import type TimeState from "./TimeState";
+import type GravityState from "./GravityState";
+import type TimelineState from "./TimelineState";
+import SandboxHistory from "./SandboxHistory";
 import RectangleTool from "./tools/RectangleTool";
 import CircleTool from "./tools/CircleTool";
+import ParticleTool from "./tools/ParticleTool";
+import ThrusterTool from "./tools/ThrusterTool";
+
+function isNumber(value: any): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+function isColor(value: any): value is number {
+    return Number.isInteger(value) && value >= 0 && value <= 0xffffff;
+}
+
+function isVector(value: any): value is { x: number, y: number } {
+    return isNumber(value?.x) && isNumber(value?.y);
+}
+
+/** Events with a pointer position, like `{ x: 1, y: 2, shift: true, ctrl: false, alt: false }` */
+const pointerEvents = ['player_move', 'player_down', 'player_up', 'player_secondary_down', 'player_secondary_up', 'player_middle_down', 'player_middle_up', 'player_scroll'];
+
+/** Modifiers can be left out of input events, but have to be booleans if they're there */
+function hasValidModifiers(value: any): boolean {
+    return [value.shift, value.ctrl, value.alt].every((modifier) => modifier === undefined || typeof modifier === 'boolean');
+}
+
+function isPointerInput(value: any): value is { x: number, y: number, shift?: boolean, ctrl?: boolean, alt?: boolean } {
+    return isVector(value) && hasValidModifiers(value);
+}
+
+/** Key events are the key, or an object like `{ key: "w", shift: false, ctrl: false, alt: false }`. Keys are `KeyboardEvent.key` values, which are short. */
+function isKeyInput(value: any): value is string | { key: string, shift?: boolean, ctrl?: boolean, alt?: boolean } {
+    let key = typeof value === 'object' && value !== null && hasValidModifiers(value) ? value.key : value;
+    return typeof key === 'string' && key.length > 0 && key.length <= 32;
+}
+
+/** If `key` is in `object` itself, not only on its prototype like `constructor` is. Clients can send any key, so maps indexed by them need this. */
+function hasOwn(object: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isValidToolOption(option: PhysicsSandboxToolOption, value: any): boolean {
+    switch (option.type) {
+        case "number":
+            if (!isNumber(value) || value < option.min || value > option.max) return false;
+            if (option.step === undefined) return true;
+            // off the grid of steps from `min`, with some room for floating point error like 0.1 + 0.2
+            let steps = (value - option.min) / option.step;
+            return Math.abs(steps - Math.round(steps)) < 1e-6;
+        case "boolean":
+            return typeof value === 'boolean';
+        case "color":
+            return isColor(value);
+        case "enum":
+            return option.values.includes(value);
+    }
+}
+
+/** Objects removed by a player, with everything attached to them, so they can be brought back */
+interface RemovedObjects {
+    objects: SimuloSavedObject[];
+    springs: SimuloSavedSpring[];
+    joints: SimuloSavedJoint[];
+    thrusters: SimuloSavedThruster[];
+    noCollide: [string, string][];
+}
+
+/** Current values of some properties of a saved object, in the units `setObjectProperties` takes */
+function getSavedObjectProperties(saved: SimuloSavedObject, properties: (keyof SimuloObjectProperties)[]): Partial<SimuloObjectProperties> {
+    let shape = saved.shape;
+    let sizes = {
+        width: shape.type === "rectangle" ? shape.width / 2 : undefined,
+        height: shape.type === "rectangle" ? shape.height / 2 : undefined,
+        radius: shape.type === "circle" ? shape.radius : undefined,
+        points: shape.type === "polygon" ? shape.points : undefined,
+    };
+    let source: Partial<SimuloObjectProperties> = { ...saved.data, ...saved, ...sizes };
+    let values: Partial<SimuloObjectProperties> = {};
+    // generic, so each value is checked against the type of its own property
+    let copy = <K extends keyof SimuloObjectProperties>(property: K) => {
+        let value = source[property];
+        values[property] = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    };
+    properties.forEach(copy);
+    return values;
+}
 
 export default class SimuloPhysicsSandboxServerPlugin implements SimuloServerPlugin {
     name = "Simulo Physics Sandbox Server Plugin";
@@ -27,30 +117,473 @@ export default class SimuloPhysicsSandboxServerPlugin implements SimuloServerPlu
     physicsPlugin: SimuloPhysicsPlugin;
     players: { [id: string]: PhysicsSandboxPlayer } = {};
 
-    builtInTools: { [id: string]: PhysicsSandboxTool } = {
-        "drag": new DragTool(this),
-        "cubes": new CubesTool(this),
-        "rectangle": new RectangleTool(this),
-        "circle": new CircleTool(this)
+    /** Tools players can pick, by ID. Built-in tools have plain IDs, and tools from other plugins are added with `registerTool`. */
+    private tools: { [id: string]: PhysicsSandboxToolClass } = {
+        "drag": DragTool,
+        "cubes": CubesTool,
+        "rectangle": RectangleTool,
+        "circle": CircleTool,
+        "particles": ParticleTool,
+        "thruster": ThrusterTool
     };
+    /** Tool instances of each player by tool ID, created the first time they use each tool */
+    playerTools: { [playerId: string]: { [toolId: string]: PhysicsSandboxTool } } = {};
+
+    /** Add a tool from another plugin. IDs are namespaced like plugin dependencies, with the namespace from your plugin's `SimuloItemDetails`, like `@carroted/laser`.
+     * 
+     * Throws if the ID isn't namespaced or is already taken. */
+    registerTool(id: string, tool: PhysicsSandboxToolClass) {
+        if (!/^@[\w-]+\/[\w-]+$/.test(id)) {
+            throw new Error('Tool ID `' + id + '` should be namespaced, like `@namespace/' + id.replace(/^@/, '').replace(/\//g, '-') + '`');
+        }
+        if (hasOwn(this.tools, id)) {
+            throw new Error('Tool `' + id + '` is already registered');
+        }
+        this.tools[id] = tool;
+        this.sendTools();
+    }
+
+    /** Remove a tool. Players using it switch to the drag tool. Returns `false` if there is no tool with that ID. */
+    unregisterTool(id: string): boolean {
+        if (id === "drag") {
+            throw new Error('The drag tool can\'t be unregistered, since players fall back to it');
+        }
+        if (!hasOwn(this.tools, id)) return false;
+        Object.keys(this.players).forEach((playerId) => {
+            if (this.players[playerId].tool === id) {
+                this.setPlayerTool(playerId, "drag");
+            }
+            delete this.playerTools[playerId]?.[id];
+        });
+        delete this.tools[id];
+        this.sendTools();
+        return true;
+    }
 
-    getTools(): {
-        name: string,
-        icon: string,
-        description: string,
-        id: string
-    }[] {
-        return Object.keys(this.builtInTools).map((id) => {
-            let tool = this.builtInTools[id];
+    /** Send the tool list to every player, along with the tool they have selected */
+    private sendTools() {
+        Object.keys(this.players).forEach((playerId) => {
+            this.controller.emit('tools', { tools: this.getTools(playerId), tool: this.players[playerId].tool }, playerId);
+        });
+    }
+
+    /** Switch a player to another tool. Switching while holding down releases the old tool first, so it doesn't keep dragging or drawing. */
+    setPlayerTool(playerId: string, toolId: string) {
+        let player = this.players[playerId];
+        if (!player || !hasOwn(this.tools, toolId)) return;
+        this.releasePlayerTool(playerId);
+        player.tool = toolId;
+        this.controller.emit('player_tool_success', toolId, playerId);
+    }
+
+    /** Let go of everything a player is holding down with their tool, so it stops dragging or drawing */
+    private releasePlayerTool(playerId: string) {
+        let player = this.players[playerId];
+        if (!player) return;
+        if (player.down) {
+            player.down = false;
+            this.getPlayerTool(playerId)?.playerUp(player);
+            this.getHistory(playerId).end();
+        }
+        if (player.secondaryDown) {
+            player.secondaryDown = false;
+            this.getPlayerTool(playerId)?.playerSecondaryUp?.(player);
+        }
+        if (player.middleDown) {
+            player.middleDown = false;
+            this.getPlayerTool(playerId)?.playerMiddleUp?.(player);
+        }
+    }
+
+    /** Instance of the tool a player has selected, or `null` if it doesn't exist */
+    getPlayerTool(playerId: string): PhysicsSandboxTool | null {
+        let player = this.players[playerId];
+        if (!player) return null;
+        return this.getToolInstance(playerId, player.tool);
+    }
+
+    /** A player's instance of any tool, even one they don't have selected, or `null` if the tool doesn't exist */
+    private getToolInstance(playerId: string, toolId: string): PhysicsSandboxTool | null {
+        if (!hasOwn(this.tools, toolId)) return null;
+        if (!hasOwn(this.playerTools, playerId)) {
+            this.playerTools[playerId] = {};
+        }
+        if (!hasOwn(this.playerTools[playerId], toolId)) {
+            this.playerTools[playerId][toolId] = new this.tools[toolId](this);
+        }
+        return this.playerTools[playerId][toolId];
+    }
+
+    /** Change options of a player's tool, like `{ density: 2, isStatic: true }`. Options that aren't in the tool's schema or have invalid values are ignored. */
+    setToolOptions(playerId: string, toolId: string, options: { [field: string]: any }) {
+        let tool = this.getToolInstance(playerId, toolId);
+        if (!tool?.options || !tool.optionValues) return;
+        let { options: schema, optionValues } = tool;
+        Object.keys(options).forEach((field) => {
+            if (hasOwn(schema, field) && hasOwn(optionValues, field) && isValidToolOption(schema[field], options[field])) {
+                optionValues[field] = options[field];
+            }
+        });
+    }
+
+    /** Tool list with the option values a player has set. This creates the player's instance of each tool, like using them would. */
+    getTools(playerId: string): PhysicsSandboxToolInfo[] {
+        return Object.keys(this.tools).map((id) => {
+            let tool = this.getToolInstance(playerId, id)!;
+            let options: PhysicsSandboxToolInfo["options"] = {};
+            if (tool.options && tool.optionValues) {
+                let { options: schema, optionValues } = tool;
+                Object.keys(schema).forEach((field) => {
+                    if (hasOwn(optionValues, field)) {
+                        options[field] = { ...schema[field], value: optionValues[field] };
+                    }
+                });
+            }
             return {
                 name: tool.name,
                 icon: tool.icon,
                 description: tool.description,
-                id
+                id,
+                options
+            }
+        });
+    }
+
+    /** Full world state for a player, so clients that join late can see shapes that were created before they connected. */
+    getWorldSnapshot(playerId: string): WorldSnapshot {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        return {
+            shapeContent: physicsServer.getShapeContents(),
+            shapeTransforms: physicsServer.getShapeTransforms(),
+            springs: physicsServer.getSpringInfos(),
+            joints: physicsServer.getJointInfos(),
+            thrusters: physicsServer.getThrusterInfos(),
+            tools: this.getTools(playerId),
+            tool: this.players[playerId]?.tool ?? "drag",
+            time: this.getTimeState(),
+            gravity: this.getGravityState(),
+            timeline: this.getTimelineState(),
+            particles: physicsServer.getParticleData()
+        };
+    }
+
+    /** Checks for each property players can change with `set_object_properties`, so clients can't put anything they want into object data */
+    objectPropertyValidators: { [property in keyof SimuloObjectProperties]: (value: any) => boolean } = {
+        name: (value) => value === undefined || (typeof value === 'string' && value.length <= 100),
+        sound: (value) => value === null || typeof value === 'string',
+        color: isColor,
+        alpha: (value) => isNumber(value) && value >= 0 && value <= 1,
+        border: (value) => value === null || isColor(value),
+        borderWidth: (value) => value === null || (isNumber(value) && value >= 0),
+        borderScaleWithZoom: (value) => typeof value === 'boolean',
+        image: (value) => value === null || typeof value === 'string',
+        flipImage: (value) => typeof value === 'boolean',
+        zDepth: isNumber,
+        friction: (value) => isNumber(value) && value >= 0,
+        restitution: (value) => isNumber(value) && value >= 0,
+        density: (value) => isNumber(value) && value > 0,
+        isStatic: (value) => typeof value === 'boolean',
+        gravityScale: isNumber,
+        position: isVector,
+        angle: isNumber,
+        linearVelocity: isVector,
+        angularVelocity: isNumber,
+        width: (value) => isNumber(value) && value > 0,
+        height: (value) => isNumber(value) && value > 0,
+        radius: (value) => isNumber(value) && value > 0,
+        points: (value) => Array.isArray(value) && value.length >= 3 && value.length <= this.maxPolygonPoints && value.every((point) => isNumber(point?.x) && isNumber(point?.y)),
+    };
+
+    /** Properties from a `set_object_properties` event, or `null` if any of them are unknown or invalid */
+    validateObjectProperties(properties: any): Partial<SimuloObjectProperties> | null {
+        if (typeof properties !== 'object' || properties === null) return null;
+        let valid = Object.keys(properties).every((property) => {
+            if (!hasOwn(this.objectPropertyValidators, property)) return false;
+            return this.objectPropertyValidators[property as keyof SimuloObjectProperties](properties[property]);
+        });
+        return valid ? properties : null;
+    }
+
+    // edits players can undo. tools should make changes to objects through these, so they end up in the player's history
+
+    /** Undo history of each player */
+    histories: { [id: string]: SandboxHistory } = {};
+
+    getHistory(playerId: string): SandboxHistory {
+        if (!this.histories[playerId]) {
+            this.histories[playerId] = new SandboxHistory();
+        }
+        return this.histories[playerId];
+    }
+
+    /** Record an object a player just created, so they can undo it */
+    recordCreate(playerId: string, id: string) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let saved = physicsServer.saveObject(id);
+        if (!saved) return;
+        this.getHistory(playerId).record({
+            undo: () => { physicsServer.removeObject(id); },
+            redo: () => {
+                if (!physicsServer.getObjectData(id)) physicsServer.loadObject(saved!, id);
             }
         });
     }
 
+    removeObjects(playerId: string, ids: string[]) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let removed = this.saveObjects(ids);
+        if (removed.objects.length === 0) return;
+        physicsServer.removeObjects(ids);
+        this.getHistory(playerId).record({
+            undo: () => this.loadObjects(removed),
+            redo: () => { physicsServer.removeObjects(ids); }
+        });
+    }
+
+    /** Save objects along with the springs, joints, thrusters and no-collide pairs attached to them, which would be removed with them */
+    private saveObjects(ids: string[]): RemovedObjects {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let idSet = new Set(ids);
+        let attached = (body: string | null | undefined) => typeof body === 'string' && idSet.has(body);
+        let objects: SimuloSavedObject[] = [];
+        ids.forEach((id) => {
+            let saved = physicsServer.saveObject(id);
+            if (saved) objects.push(saved);
+        });
+        let springs: SimuloSavedSpring[] = [];
+        Object.keys(physicsServer.springs).forEach((springID) => {
+            let spring = physicsServer.springs[springID];
+            // springs that aren't between objects and world points can't be brought back, since they're attached to functions
+            if (spring.temporary || spring.bodyA === undefined || spring.bodyB === undefined || !(attached(spring.bodyA) || attached(spring.bodyB))) return;
+            springs.push(JSON.parse(JSON.stringify({
+                id: springID,
+                bodyA: spring.bodyA,
+                bodyB: spring.bodyB,
+                localAnchorA: spring.localAnchorA,
+                localAnchorB: spring.localAnchorB,
+                stiffness: spring.stiffness,
+                damping: spring.damping,
+                targetLength: spring.targetLength,
+            })));
+        });
+        let joints = physicsServer.getJointInfos().map((info) => JSON.parse(JSON.stringify({ ...physicsServer.getJoint(info.id), id: info.id })) as SimuloSavedJoint)
+            .filter((joint) => attached(joint.bodyA) || attached(joint.bodyB));
+        let thrusters = physicsServer.getThrusterInfos().map((info) => JSON.parse(JSON.stringify({ ...physicsServer.getThruster(info.id), id: info.id })) as SimuloSavedThruster)
+            .filter((thruster) => attached(thruster.body));
+        let noCollide = physicsServer.getNoCollidePairs().filter((pair) => attached(pair[0]) || attached(pair[1]));
+        return { objects, springs, joints, thrusters, noCollide };
+    }
+
+    /** Bring back objects from `saveObjects`. Anything attached to objects that are gone by now is skipped. */
+    private loadObjects(removed: RemovedObjects) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let exists = (body: string | null) => body === null || physicsServer.getObjectData(body) !== null;
+        removed.objects.forEach((saved) => {
+            if (!exists(saved.data.id)) physicsServer.loadObject(saved, saved.data.id);
+        });
+        removed.springs.forEach((spring) => {
+            if (exists(spring.bodyA) && exists(spring.bodyB)) physicsServer.addObjectSpring(spring, spring.id);
+        });
+        removed.joints.forEach((joint) => {
+            let { id, ...desc } = joint;
+            if (exists(joint.bodyA) && exists(joint.bodyB) && !physicsServer.getJoint(id)) physicsServer.addJoint(desc, id);
+        });
+        removed.thrusters.forEach((thruster) => {
+            let { id, ...desc } = thruster;
+            if (exists(thruster.body) && !physicsServer.getThruster(id)) physicsServer.addThruster(desc, id);
+        });
+        removed.noCollide.forEach((pair) => {
+            if (exists(pair[0]) && exists(pair[1])) physicsServer.setNoCollide(pair[0], pair[1]);
+        });
+    }
+
+    /** Current values of some properties of an object, or `null` if it doesn't exist */
+    getObjectProperties(id: string, properties: (keyof SimuloObjectProperties)[]): Partial<SimuloObjectProperties> | null {
+        let saved = this.physicsPlugin.physicsServer.saveObject(id);
+        return saved ? getSavedObjectProperties(saved, properties) : null;
+    }
+
+    /** Change properties of an object. Throws like `SimuloPhysicsServer.setObjectProperties` does, without recording anything. */
+    setObjectProperties(playerId: string, id: string, properties: Partial<SimuloObjectProperties>) {
+        let before = this.getObjectProperties(id, Object.keys(properties) as (keyof SimuloObjectProperties)[]);
+        if (!before) return;
+        this.physicsPlugin.physicsServer.setObjectProperties(id, properties);
+        this.recordPropertyChange(playerId, id, before);
+    }
+
+    /** Record a change that already happened, like moving an object by dragging it, given the changed properties from before it */
+    recordPropertyChange(playerId: string, id: string, before: Partial<SimuloObjectProperties>) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let after = this.getObjectProperties(id, Object.keys(before) as (keyof SimuloObjectProperties)[]);
+        if (!after) return;
+        this.getHistory(playerId).record({
+            undo: () => { physicsServer.setObjectProperties(id, before); },
+            redo: () => { physicsServer.setObjectProperties(id, after!); }
+        });
+    }
+
+    /** Reorder an object, recording the Z Depth of every object it moved past */
+    reorderObject(playerId: string, id: string, order: "bring_to_front" | "send_to_back" | "raise" | "lower") {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let getZDepths = () => {
+            let contents = physicsServer.getShapeContents();
+            let zDepths: { [id: string]: number } = {};
+            Object.keys(contents).forEach((contentID) => zDepths[contentID] = contents[contentID].zDepth);
+            return zDepths;
+        };
+        let before = getZDepths();
+        if (order === 'bring_to_front') physicsServer.bringToFront(id);
+        else if (order === 'send_to_back') physicsServer.sendToBack(id);
+        else if (order === 'raise') physicsServer.raise(id);
+        else if (order === 'lower') physicsServer.lower(id);
+        let after = getZDepths();
+        let changed = Object.keys(after).filter((objectID) => after[objectID] !== before[objectID]);
+        if (changed.length === 0) return;
+        this.getHistory(playerId).record({
+            undo: () => changed.forEach((objectID) => physicsServer.setObjectProperties(objectID, { zDepth: before[objectID] })),
+            redo: () => changed.forEach((objectID) => physicsServer.setObjectProperties(objectID, { zDepth: after[objectID] }))
+        });
+    }
+
+    setObjectLayers(playerId: string, id: string, layers: string[]) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let before = physicsServer.getObjectData(id)?.layers;
+        if (!before) return;
+        before = [...before];
+        physicsServer.setObjectLayers(id, layers);
+        this.getHistory(playerId).record({
+            undo: () => { physicsServer.setObjectLayers(id, before!); },
+            redo: () => { physicsServer.setObjectLayers(id, layers); }
+        });
+    }
+
+    addJoint(playerId: string, desc: SimuloJointDesc): string {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let id = physicsServer.addJoint(desc).id;
+        let saved = JSON.parse(JSON.stringify(physicsServer.getJoint(id))) as SimuloJointDesc;
+        this.getHistory(playerId).record({
+            undo: () => { physicsServer.removeJoint(id); },
+            redo: () => this.loadObjects({ objects: [], springs: [], joints: [{ ...saved, id }], thrusters: [], noCollide: [] })
+        });
+        return id;
+    }
+
+    removeJoint(playerId: string, id: string) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let desc = physicsServer.getJoint(id);
+        if (!desc) return;
+        let saved = JSON.parse(JSON.stringify(desc)) as SimuloJointDesc;
+        physicsServer.removeJoint(id);
+        this.getHistory(playerId).record({
+            undo: () => this.loadObjects({ objects: [], springs: [], joints: [{ ...saved, id }], thrusters: [], noCollide: [] }),
+            redo: () => { physicsServer.removeJoint(id); }
+        });
+    }
+
+    addThruster(playerId: string, desc: SimuloThrusterDesc): string {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let id = physicsServer.addThruster(desc);
+        let saved = JSON.parse(JSON.stringify(desc)) as SimuloThrusterDesc;
+        this.getHistory(playerId).record({
+            undo: () => { physicsServer.removeThruster(id); },
+            redo: () => this.loadObjects({ objects: [], springs: [], joints: [], thrusters: [{ ...saved, id }], noCollide: [] })
+        });
+        return id;
+    }
+
+    removeThruster(playerId: string, id: string) {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let desc = physicsServer.getThruster(id);
+        if (!desc) return;
+        let saved = JSON.parse(JSON.stringify(desc)) as SimuloThrusterDesc;
+        physicsServer.removeThruster(id);
+        this.getHistory(playerId).record({
+            undo: () => this.loadObjects({ objects: [], springs: [], joints: [], thrusters: [{ ...saved, id }], noCollide: [] }),
+            redo: () => { physicsServer.removeThruster(id); }
+        });
+    }
+
+    /** Joint from an `add_joint` event with only the known properties, or `null` if it's invalid */
+    validateJoint(joint: any): SimuloJointDesc | null {
+        if (typeof joint !== 'object' || joint === null) return null;
+        if (!['hinge', 'bolt', 'slider'].includes(joint.type) || typeof joint.bodyA !== 'string' || typeof joint.bodyB !== 'string' || !isVector(joint.localAnchorA) || !isVector(joint.localAnchorB)) return null;
+        if (joint.axis !== undefined && !isVector(joint.axis)) return null;
+        if (joint.referenceAngle !== undefined && !isNumber(joint.referenceAngle)) return null;
+        if (joint.limits !== undefined && joint.limits !== null && !(Array.isArray(joint.limits) && joint.limits.length === 2 && joint.limits.every(isNumber))) return null;
+        let motor = joint.motor;
+        if (motor !== undefined && motor !== null && !(isNumber(motor.targetVelocity) && isNumber(motor.targetPosition) && isNumber(motor.stiffness) && isNumber(motor.damping))) return null;
+        if (joint.collideConnected !== undefined && typeof joint.collideConnected !== 'boolean') return null;
+        return {
+            type: joint.type,
+            bodyA: joint.bodyA,
+            bodyB: joint.bodyB,
+            localAnchorA: { x: joint.localAnchorA.x, y: joint.localAnchorA.y },
+            localAnchorB: { x: joint.localAnchorB.x, y: joint.localAnchorB.y },
+            axis: joint.axis && { x: joint.axis.x, y: joint.axis.y },
+            referenceAngle: joint.referenceAngle,
+            limits: joint.limits && [joint.limits[0], joint.limits[1]],
+            motor: motor && { targetVelocity: motor.targetVelocity, targetPosition: motor.targetPosition, stiffness: motor.stiffness, damping: motor.damping },
+            collideConnected: joint.collideConnected
+        };
+    }
+
+    getGravityState(): GravityState {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        return {
+            gravity: { x: physicsServer.gravity.x, y: physicsServer.gravity.y },
+            fields: physicsServer.getGravityFields()
+        };
+    }
+
+    /** Gravity field from an `add_gravity_field` event with only the known properties, or `null` if it's invalid */
+    validateGravityField(field: any): SimuloGravityFieldDesc | null {
+        if (typeof field !== 'object' || field === null) return null;
+        if (!['radial', 'directional', 'zero'].includes(field.type) || !isVector(field.position) || !isNumber(field.radius) || field.radius <= 0) return null;
+        if (field.strength !== undefined && !isNumber(field.strength)) return null;
+        if (field.direction !== undefined && !isVector(field.direction)) return null;
+        if (field.falloff !== undefined && !['none', 'linear', 'inverse_square'].includes(field.falloff)) return null;
+        if (field.layers !== undefined && !(Array.isArray(field.layers) && field.layers.every((layer: any) => typeof layer === 'string'))) return null;
+        return {
+            type: field.type,
+            position: { x: field.position.x, y: field.position.y },
+            radius: field.radius,
+            strength: field.strength,
+            direction: field.direction && { x: field.direction.x, y: field.direction.y },
+            falloff: field.falloff,
+            layers: field.layers
+        };
+    }
+
+    /** Fastest time scale players can set. Fast forward runs more physics steps per frame, so this is limited by `maxCatchUpSteps` on the controller. */
+    maxTimeScale = 4;
+    /** Most steps players can advance at once */
+    maxAdvanceSteps = 600;
+    /** Most particles the world can have, since each one is a body that needs to be simulated and sent every update */
+    maxParticles = 5000;
+    /** Strongest thruster players can set, so nothing gets launched out of the world in one step */
+    maxThrusterStrength = 10000;
+    /** Most points players can give a polygon, since polygons are split into convex pieces on the physics thread */
+    maxPolygonPoints = 500;
+
+    getTimeState(): TimeState {
+        return {
+            timeScale: this.controller.timeScale,
+            paused: this.controller.paused
+        };
+    }
+
+    getTimelineState(): TimelineState {
+        return {
+            tick: this.physicsPlugin.tick,
+            snapshots: this.physicsPlugin.snapshots.getTicks()
+        };
+    }
+
+    /** World updates sent to clients per second. Can be lower than the controller's frame rate to save bandwidth, since physics changes are combined between sends. */
+    networkRate = 60;
+    /** Seconds since the last `world_update` */
+    private networkTime = 0;
+
     /** Overlays are cleared each frame, and sent alongside each `world_update`. */
     overlayShapes: OverlayShape[] = [];
     /** Overlays are cleared each frame, and sent alongside each `world_update`. */
@@ -90,31 +623,101 @@ export default class SimuloPhysicsSandboxServerPlugin implements SimuloServerPlu
         this.overlayTexts.splice(index, 1);
     }
 
+    /** Collisions with less impulse than this don't make sounds, so resting objects stay quiet */
+    minCollisionSoundImpulse = 0.5;
+    /** Collisions with this much impulse or more play sounds at full volume */
+    maxCollisionSoundImpulse = 20;
+    /** Minimum number of updates between sounds of the same object */
+    collisionSoundCooldown = 6;
+    /** Maximum number of `collision_sound` events per update */
+    maxCollisionSoundsPerUpdate = 8;
+    private frame = 0;
+    private collisionSoundsThisUpdate = 0;
+    /** Last update each object played a sound on */
+    private lastCollisionSounds: { [id: string]: number } = {};
+
+    /** Tells clients to play the sounds of the objects in a collision, so they can play them with volume scaled by impact strength. */
+    handleCollision(collision: SimuloCollisionEvent) {
+        if (collision.impulse < this.minCollisionSoundImpulse || !collision.point) return;
+        let volume = Math.min(1, (collision.impulse - this.minCollisionSoundImpulse) / (this.maxCollisionSoundImpulse - this.minCollisionSoundImpulse));
+        [collision.objectA, collision.objectB].forEach((id) => {
+            if (this.collisionSoundsThisUpdate >= this.maxCollisionSoundsPerUpdate) return;
+            let data = this.physicsPlugin.physicsServer.getObjectData(id);
+            if (!data || !data.sound) return;
+            let last = this.lastCollisionSounds[id];
+            if (last !== undefined && this.frame - last < this.collisionSoundCooldown) return;
+            this.lastCollisionSounds[id] = this.frame;
+            this.collisionSoundsThisUpdate++;
+            this.controller.emit('collision_sound', {
+                sound: data.sound,
+                volume,
+                x: collision.point!.x,
+                y: collision.point!.y
+            }, null);
+        });
+    }
+
     constructor(controller: SimuloServerController, physicsPlugin: SimuloPhysicsPlugin) {
         this.controller = controller;
         this.physicsPlugin = physicsPlugin;
+        this.physicsPlugin.physicsServer.on('collision_start', (collision: SimuloCollisionEvent) => {
+            this.handleCollision(collision);
+        });
     }
     start(): void { }
     update(): void {
-        // emit the the physics previousStep
-        if (this.physicsPlugin.previousStepInfo) {
-            this.controller.emit('world_update', {
-                ...this.physicsPlugin.previousStepInfo,
-                overlays: {
-                    shapes: this.overlayShapes,
-                    texts: this.overlayTexts
-                }
-            } as WorldUpdate, null);
-        }
-        // clear overlays
+        this.frame++;
+        this.collisionSoundsThisUpdate = 0;
+        Object.keys(this.lastCollisionSounds).forEach((id) => {
+            if (this.frame - this.lastCollisionSounds[id] >= this.collisionSoundCooldown) {
+                delete this.lastCollisionSounds[id];
+            }
+        });
+
+        // clear overlays, tools add them again in their update
         this.overlayShapes = [];
         this.overlayTexts = [];
         // fire tool update events for all players
         Object.keys(this.players).forEach(playerId => {
-            if (this.builtInTools[this.players[playerId].tool]) {
-                this.builtInTools[this.players[playerId].tool].update(this.players[playerId]);
-            }
+            this.getPlayerTool(playerId)?.update(this.players[playerId]);
         });
+
+        this.networkTime += 1 / this.controller.frameRate;
+        let networkInterval = 1 / this.networkRate;
+        if (this.networkTime >= networkInterval) {
+            this.networkTime -= networkInterval;
+            if (this.networkTime >= networkInterval) {
+                this.networkTime = 0;
+            }
+            this.sendWorldUpdate();
+        }
+    }
+
+    /** Send everything physics changed since the last send, along with the overlays. Also sent while paused, so tools can still show overlays. */
+    sendWorldUpdate() {
+        let physicsServer = this.physicsPlugin.physicsServer;
+        let stepInfo: SimuloPhysicsStepInfo = this.physicsPlugin.takeStepInfo() ?? {
+            delta: {
+                shapeContent: {},
+                shapeTransforms: {},
+                keyframe: false,
+                removed: []
+            },
+            ms: 0,
+            springs: physicsServer.getSpringInfos(),
+            joints: physicsServer.getJointInfos(),
+            thrusters: physicsServer.getThrusterInfos(),
+            // particles can be added while paused, so colors and radii are always included here
+            particles: physicsServer.getParticleData()
+        };
+        this.controller.emit('world_update', {
+            ...stepInfo,
+            overlays: {
+                shapes: this.overlayShapes,
+                texts: this.overlayTexts
+            },
+            timeline: this.getTimelineState()
+        } as WorldUpdate, null);
     }
     destroy(): void { }
     handleIncomingEvent(event: string, data: any, id: string): void {
@@ -126,44 +729,282 @@ export default class SimuloPhysicsSandboxServerPlugin implements SimuloServerPlu
                 color: 0xffffff,
                 id,
                 down: false,
+                secondaryDown: false,
+                middleDown: false,
+                shift: false,
+                ctrl: false,
+                alt: false,
+                keys: [],
                 tool: "drag"
             }
         }
 
+        if (event === 'connect') {
+            this.controller.emit('world_snapshot', this.getWorldSnapshot(id), id);
+        }
+
+        // input with malformed data is ignored, so it can't throw or put NaN into the world
+        let pointerEvent = pointerEvents.includes(event);
+        let keyEvent = event === 'key_down' || event === 'key_up';
+        if (pointerEvent && !isPointerInput(data)) return;
+        if (event === 'player_scroll' && !isNumber(data.delta)) return;
+        if (keyEvent && !isKeyInput(data)) return;
+
         // player event handlers
         if (this.players[id]) {
-            if (event === 'player_move' || event === 'player_down' || event === 'player_up') {
-                this.players[id].x = data.x ?? 0;
-                this.players[id].y = data.y ?? 0;
+            if (pointerEvent) {
+                this.players[id].x = data.x;
+                this.players[id].y = data.y;
+            }
+            // input events can say which modifiers are held
+            if ((pointerEvent || keyEvent) && typeof data === 'object') {
+                if (data.shift !== undefined) this.players[id].shift = data.shift;
+                if (data.ctrl !== undefined) this.players[id].ctrl = data.ctrl;
+                if (data.alt !== undefined) this.players[id].alt = data.alt;
             }
 
             // player_move is usually triggered by mouse movement, but can also be triggered by keyboard movement
             if (event === 'player_move') {
-                if (this.builtInTools[this.players[id].tool]) {
-                    this.builtInTools[this.players[id].tool].playerMove(this.players[id]);
-                }
+                this.getPlayerTool(id)?.playerMove(this.players[id]);
             }
 
             // player_down fires when primary input is pressed, such as mouse left click
             if (event === 'player_down') {
                 this.players[id].down = true;
-                if (this.builtInTools[this.players[id].tool]) {
-                    this.builtInTools[this.players[id].tool].playerDown(this.players[id]);
-                }
+                // everything the tool does until the player lets go is undone together
+                this.getHistory(id).begin();
+                this.getPlayerTool(id)?.playerDown(this.players[id]);
             }
 
             // player_up fires when primary input is released, such as mouse left click
             if (event === 'player_up') {
                 this.players[id].down = false;
-                if (this.builtInTools[this.players[id].tool]) {
-                    this.builtInTools[this.players[id].tool].playerUp(this.players[id]);
+                this.getPlayerTool(id)?.playerUp(this.players[id]);
+                this.getHistory(id).end();
+            }
+
+            // secondary input is usually right click, middle input is usually the mouse wheel button
+            if (event === 'player_secondary_down') {
+                this.players[id].secondaryDown = true;
+                this.getPlayerTool(id)?.playerSecondaryDown?.(this.players[id]);
+            }
+            if (event === 'player_secondary_up') {
+                this.players[id].secondaryDown = false;
+                this.getPlayerTool(id)?.playerSecondaryUp?.(this.players[id]);
+            }
+            if (event === 'player_middle_down') {
+                this.players[id].middleDown = true;
+                this.getPlayerTool(id)?.playerMiddleDown?.(this.players[id]);
+            }
+            if (event === 'player_middle_up') {
+                this.players[id].middleDown = false;
+                this.getPlayerTool(id)?.playerMiddleUp?.(this.players[id]);
+            }
+            // like `{ x: 1, y: 2, delta: 100 }`, positive delta is scrolling down
+            if (event === 'player_scroll') {
+                this.getPlayerTool(id)?.playerScroll?.(this.players[id], data.delta);
+            }
+
+            // each player undoes their own changes
+            if (event === 'undo') {
+                this.getHistory(id).undo();
+            }
+            if (event === 'redo') {
+                this.getHistory(id).redo();
+            }
+
+            // time controls, so anyone can pause, step through or change the speed of the simulation
+            if (event === 'time_scale') {
+                if (typeof data === 'number' && isFinite(data)) {
+                    this.controller.setTimeScale(Math.min(Math.max(data, 0), this.maxTimeScale));
+                }
+                this.controller.emit('time_state', this.getTimeState(), null);
+            }
+            if (event === 'pause') {
+                this.controller.pause();
+                this.controller.emit('time_state', this.getTimeState(), null);
+            }
+            if (event === 'resume') {
+                this.controller.resume();
+                this.controller.emit('time_state', this.getTimeState(), null);
+            }
+            // advance a number of steps, usually while paused. defaults to 1
+            if (event === 'advance') {
+                let steps = typeof data === 'number' && isFinite(data) ? data : 1;
+                this.controller.advance(Math.min(Math.max(steps, 0), this.maxAdvanceSteps));
+            }
+            // rewind to a tick from `TimelineState.snapshots`, then send everyone the whole world again
+            if (event === 'rewind_to') {
+                if (typeof data === 'number' && this.physicsPlugin.snapshots.get(data)) {
+                    // tools let go before the rewind, so drags and shapes being drawn don't carry over into the old world
+                    Object.keys(this.players).forEach((playerId) => this.releasePlayerTool(playerId));
+                    this.physicsPlugin.rewindTo(data);
+                    // object IDs are reused after a rewind, so undoing old changes could change objects the player never touched
+                    this.histories = {};
+                    Object.keys(this.players).forEach((playerId) => {
+                        this.controller.emit('world_snapshot', this.getWorldSnapshot(playerId), playerId);
+                    });
+                }
+            }
+
+            // change collision layers of an object, like `{ id: "/3", layers: ["default", "wheels"] }`
+            if (event === 'set_layers') {
+                if (typeof data?.id === 'string' && Array.isArray(data.layers) && data.layers.every((layer: any) => typeof layer === 'string')) {
+                    try {
+                        this.setObjectLayers(id, data.id, data.layers);
+                    }
+                    catch (e) {
+                        // too many layers
+                        console.error(e);
+                    }
+                }
+            }
+
+            // change properties of an object, like `{ id: "/3", properties: { color: 0xff0000, radius: 2 } }`
+            if (event === 'set_object_properties') {
+                let properties = this.validateObjectProperties(data?.properties);
+                if (typeof data?.id === 'string' && properties) {
+                    try {
+                        this.setObjectProperties(id, data.id, properties);
+                    }
+                    catch (e) {
+                        // sizes that don't match the object, or polygons that intersect themselves
+                        console.error(e);
+                    }
+                }
+            }
+
+            // gravity controls, like `{ x: 0, y: -1.62 }` for the moon
+            if (event === 'set_gravity') {
+                if (isVector(data)) {
+                    this.physicsPlugin.physicsServer.setGravity(data);
+                    this.controller.emit('gravity_state', this.getGravityState(), null);
+                }
+            }
+            // place a gravity field, like `{ type: "radial", position: { x: 0, y: 0 }, radius: 20, strength: 9.81, falloff: "inverse_square" }`
+            if (event === 'add_gravity_field') {
+                let field = this.validateGravityField(data);
+                if (field) {
+                    this.physicsPlugin.physicsServer.addGravityField(field);
+                    this.controller.emit('gravity_state', this.getGravityState(), null);
+                }
+            }
+            // move or change a gravity field, like `{ id: "/5", field: { ...same as add_gravity_field } }`
+            if (event === 'update_gravity_field') {
+                let field = this.validateGravityField(data?.field);
+                if (typeof data?.id === 'string' && field && this.physicsPlugin.physicsServer.updateGravityField(data.id, field)) {
+                    this.controller.emit('gravity_state', this.getGravityState(), null);
+                }
+            }
+            if (event === 'remove_gravity_field') {
+                if (typeof data === 'string' && this.physicsPlugin.physicsServer.removeGravityField(data)) {
+                    this.controller.emit('gravity_state', this.getGravityState(), null);
+                }
+            }
+
+            // thrusters, toggled one at a time or with the key they're bound to
+            if (event === 'toggle_thruster') {
+                let thruster = typeof data === 'string' ? this.physicsPlugin.physicsServer.getThruster(data) : null;
+                if (thruster) {
+                    this.physicsPlugin.physicsServer.updateThruster(data, { enabled: !thruster.enabled });
+                }
+            }
+            // like `{ key: "w", shift: false, ctrl: false, alt: false }`, or just the key
+            if (event === 'key_down') {
+                let key: string = typeof data === 'string' ? data : data.key;
+                let player = this.players[id];
+                // held keys are sent to everyone, so there's a limit
+                if (!player.keys.includes(key) && player.keys.length < 16) {
+                    player.keys.push(key);
+                }
+                // shortcuts like ctrl+w shouldn't toggle thrusters bound to w
+                if (!player.ctrl && !player.alt) {
+                    let physicsServer = this.physicsPlugin.physicsServer;
+                    physicsServer.getThrustersWithKey(key).forEach((thrusterID) => {
+                        physicsServer.updateThruster(thrusterID, { enabled: !physicsServer.getThruster(thrusterID)!.enabled });
+                    });
+                }
+                this.getPlayerTool(id)?.playerKeyDown?.(player, key);
+            }
+            if (event === 'key_up') {
+                let key: string = typeof data === 'string' ? data : data.key;
+                let player = this.players[id];
+                player.keys = player.keys.filter((held) => held !== key);
+                this.getPlayerTool(id)?.playerKeyUp?.(player, key);
+            }
+            // change a thruster, like `{ id: "/4", changes: { strength: 50, key: "w" } }`
+            if (event === 'update_thruster') {
+                let changes = data?.changes;
+                let valid = typeof data?.id === 'string' && typeof changes === 'object' && changes !== null &&
+                    (changes.localAnchor === undefined || isVector(changes.localAnchor)) &&
+                    (changes.direction === undefined || isVector(changes.direction)) &&
+                    (changes.strength === undefined || (isNumber(changes.strength) && changes.strength >= 0 && changes.strength <= this.maxThrusterStrength)) &&
+                    (changes.enabled === undefined || typeof changes.enabled === 'boolean') &&
+                    (changes.key === undefined || changes.key === null || typeof changes.key === 'string');
+                if (valid) {
+                    this.physicsPlugin.physicsServer.updateThruster(data.id, {
+                        localAnchor: changes.localAnchor,
+                        direction: changes.direction,
+                        strength: changes.strength,
+                        enabled: changes.enabled,
+                        key: changes.key
+                    });
+                }
+            }
+            if (event === 'remove_thruster') {
+                if (typeof data === 'string') {
+                    this.removeThruster(id, data);
+                }
+            }
+
+            // remove objects, with `"/3"` or `["/3", "/4"]`
+            if (event === 'remove_object') {
+                let ids = typeof data === 'string' ? [data] : data;
+                if (Array.isArray(ids) && ids.every((objectID: any) => typeof objectID === 'string')) {
+                    this.removeObjects(id, ids);
+                }
+            }
+
+            // connect two objects, like `{ type: "hinge", bodyA: "/3", bodyB: "/4", localAnchorA: { x: 0, y: 1 }, localAnchorB: { x: 0, y: -1 } }`
+            if (event === 'add_joint') {
+                let joint = this.validateJoint(data);
+                if (joint) {
+                    try {
+                        this.addJoint(id, joint);
+                    }
+                    catch (e) {
+                        // objects that don't exist
+                        console.error(e);
+                    }
+                }
+            }
+            if (event === 'remove_joint') {
+                if (typeof data === 'string') {
+                    this.removeJoint(id, data);
+                }
+            }
+
+            if (event === 'clear_particles') {
+                this.physicsPlugin.physicsServer.clearParticles();
+            }
+
+            // change drawing order of an object, like `{ id: "/3", order: "bring_to_front" }`
+            if (event === 'reorder_object') {
+                if (typeof data?.id === 'string' && ['bring_to_front', 'send_to_back', 'raise', 'lower'].includes(data.order)) {
+                    this.reorderObject(id, data.id, data.order);
+                }
+            }
+
+            // change options of one of the player's tools, like `{ tool: "rectangle", options: { density: 2, isStatic: true } }`
+            if (event === 'tool_options') {
+                if (typeof data?.tool === 'string' && typeof data.options === 'object' && data.options !== null) {
+                    this.setToolOptions(id, data.tool, data.options);
                 }
             }
 
             if (event === 'player_tool') {
-                this.players[id].tool = data.toString();
+                this.setPlayerTool(id, String(data));
                 console.log('changed tool to', data);
-                this.controller.emit('player_tool_success', data, id);
             }
         }
     }
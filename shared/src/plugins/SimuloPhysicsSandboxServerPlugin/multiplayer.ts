@@ -0,0 +1,340 @@
+import SimuloServerController from "../../SimuloServerController";
+import SimuloPhysicsPlugin from "../SimuloPhysicsPlugin";
+import SimuloPhysicsSandboxServerPlugin from ".";
+import type { SimuloConformanceResult } from "../../SimuloPhysicsServer/conformance";
+import type { Rectangle, Circle } from "../../SimuloPhysicsServer";
+import type PhysicsSandboxPlayer from "./PhysicsSandboxPlayer";
+import DragTool from "./tools/DragTool";
+
+/** A multiplayer check, which drives several players through the sandbox at once and throws if they get in each other's way */
+interface SandboxMultiplayerCheck {
+    name: string;
+    run: (sandbox: SimuloPhysicsSandboxServerPlugin) => void | Promise<void>;
+}
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+
+/** Sandbox with a paused controller and only a ground in the world, so checks decide exactly when physics steps */
+async function createSandbox(): Promise<SimuloPhysicsSandboxServerPlugin> {
+    let controller = new SimuloServerController(60, 1);
+    let physicsPlugin = new SimuloPhysicsPlugin(controller);
+    await physicsPlugin.init();
+    controller.addPlugin(physicsPlugin);
+    let sandbox = new SimuloPhysicsSandboxServerPlugin(controller, physicsPlugin);
+    controller.addPlugin(sandbox);
+    // nothing is sent anywhere, so events go nowhere
+    controller.emit = () => { };
+    controller.pause();
+
+    let physicsServer = physicsPlugin.physicsServer;
+    physicsServer.removeObjects(Object.keys(physicsServer.getShapeContents()));
+    physicsServer.addRectangle({
+        name: "Ground", sound: null, color: 0xffffff, alpha: 1, border: null, borderWidth: null, borderScaleWithZoom: false, image: null,
+        position: { x: 0, y: -0.5 }, isStatic: true, friction: 0.5, restitution: 0, density: 1,
+        width: 50, height: 0.5
+    });
+    return sandbox;
+}
+
+/** Run frames with one physics step each */
+function frames(sandbox: SimuloPhysicsSandboxServerPlugin, count: number) {
+    for (let i = 0; i < count; i++) {
+        sandbox.controller.advance(1);
+        // the controller is paused, so the time doesn't matter
+        sandbox.controller.runFrame(0);
+    }
+}
+
+function send(sandbox: SimuloPhysicsSandboxServerPlugin, player: string, event: string, data: any) {
+    sandbox.controller.handleIncomingEvent(event, data, player);
+}
+
+function box(sandbox: SimuloPhysicsSandboxServerPlugin, x: number, y: number): string {
+    return sandbox.physicsPlugin.physicsServer.addRectangle({
+        name: "Box", sound: null, color: 0xffffff, alpha: 1, border: null, borderWidth: null, borderScaleWithZoom: false, image: null,
+        position: { x, y }, isStatic: false, friction: 0.5, restitution: 0, density: 1,
+        width: 0.5, height: 0.5
+    });
+}
+
+function height(sandbox: SimuloPhysicsSandboxServerPlugin, id: string): number {
+    let transform = sandbox.physicsPlugin.physicsServer.getShapeTransforms()[id];
+    assert(transform !== undefined, 'Object `' + id + '` has no transform');
+    return transform.y;
+}
+
+/** The whole world as a string, to compare worlds. Scene details have timestamps, so they're left out. */
+function worldState(sandbox: SimuloPhysicsSandboxServerPlugin): string {
+    let scene = sandbox.physicsPlugin.physicsServer.saveScene({ name: '', description: '', version: '', author: '', namespace: '', id: '', dependencies: [] });
+    return JSON.stringify({ ...scene, details: null });
+}
+
+function objectsNamed(sandbox: SimuloPhysicsSandboxServerPlugin, name: string) {
+    let physicsServer = sandbox.physicsPlugin.physicsServer;
+    return Object.values(physicsServer.getShapeContents()).filter((content) => physicsServer.getObjectData(content.id)?.name === name);
+}
+
+const checks: SandboxMultiplayerCheck[] = [
+    {
+        name: "dragging at the same time",
+        run: (sandbox) => {
+            let a = box(sandbox, -5, 0.5);
+            let b = box(sandbox, 5, 0.5);
+            // new objects can only be found by queries after a step
+            frames(sandbox, 1);
+            send(sandbox, "alice", "player_tool", "drag");
+            send(sandbox, "bob", "player_tool", "drag");
+            send(sandbox, "alice", "player_down", { x: -5, y: 0.5 });
+            send(sandbox, "bob", "player_down", { x: 5, y: 0.5 });
+            send(sandbox, "alice", "player_move", { x: -5, y: 5 });
+            send(sandbox, "bob", "player_move", { x: 5, y: 5 });
+            frames(sandbox, 120);
+            assert(height(sandbox, a) > 3, 'Alice should be lifting her box, but it is at y ' + height(sandbox, a));
+            assert(height(sandbox, b) > 3, 'Bob should be lifting his box, but it is at y ' + height(sandbox, b));
+
+            send(sandbox, "alice", "player_up", { x: -5, y: 5 });
+            frames(sandbox, 60);
+            assert(height(sandbox, a) < 1, 'Alice\'s box should fall after she lets go');
+            assert(height(sandbox, b) > 3, 'Bob should still be lifting his box after Alice lets go');
+        }
+    },
+    {
+        name: "drawing rectangles at the same time",
+        run: (sandbox) => {
+            send(sandbox, "alice", "player_tool", "rectangle");
+            send(sandbox, "bob", "player_tool", "rectangle");
+            send(sandbox, "alice", "player_down", { x: 0, y: 0 });
+            send(sandbox, "bob", "player_down", { x: 10, y: 0 });
+            frames(sandbox, 1);
+            send(sandbox, "alice", "player_up", { x: 2, y: 2 });
+            send(sandbox, "bob", "player_up", { x: 16, y: 4 });
+            let sizes = objectsNamed(sandbox, "Rectangle").map((content) => (content as Rectangle).width + "x" + (content as Rectangle).height).sort();
+            assert(sizes.join() === "2x2,6x4", 'Expected a 2x2 and a 6x4 rectangle, but got ' + (sizes.join() || 'none'));
+        }
+    },
+    {
+        name: "spawning cubes at the same time",
+        run: (sandbox) => {
+            send(sandbox, "alice", "player_tool", "cubes");
+            send(sandbox, "bob", "player_tool", "cubes");
+            send(sandbox, "alice", "player_down", { x: -10, y: 5 });
+            frames(sandbox, 10);
+            send(sandbox, "alice", "player_up", { x: -10, y: 5 });
+            let alone = objectsNamed(sandbox, "Cube").length;
+            send(sandbox, "alice", "player_down", { x: -10, y: 5 });
+            send(sandbox, "bob", "player_down", { x: 10, y: 5 });
+            frames(sandbox, 10);
+            send(sandbox, "alice", "player_up", { x: -10, y: 5 });
+            send(sandbox, "bob", "player_up", { x: 10, y: 5 });
+            let together = objectsNamed(sandbox, "Cube").length - alone;
+            assert(alone > 0 && together === alone * 2, 'Two players should spawn twice as many cubes as one, but got ' + alone + ' from one and ' + together + ' from two');
+        }
+    },
+    {
+        name: "undoing only your own changes",
+        run: (sandbox) => {
+            send(sandbox, "alice", "player_tool", "circle");
+            send(sandbox, "bob", "player_tool", "circle");
+            send(sandbox, "alice", "player_down", { x: 0, y: 0 });
+            send(sandbox, "bob", "player_down", { x: 10, y: 0 });
+            send(sandbox, "alice", "player_up", { x: 2, y: 2 });
+            send(sandbox, "bob", "player_up", { x: 14, y: 4 });
+            assert(objectsNamed(sandbox, "Circle").length === 2, 'Both players should have drawn a circle');
+            send(sandbox, "alice", "undo", null);
+            let circles = objectsNamed(sandbox, "Circle");
+            assert(circles.length === 1 && (circles[0] as Circle).radius === 2, 'Alice\'s undo should only remove her circle');
+            send(sandbox, "bob", "redo", null);
+            assert(objectsNamed(sandbox, "Circle").length === 1, 'Bob shouldn\'t be able to redo Alice\'s undo');
+            send(sandbox, "alice", "redo", null);
+            assert(objectsNamed(sandbox, "Circle").length === 2, 'Alice should be able to redo her circle');
+        }
+    },
+    {
+        name: "switching tools while dragging",
+        run: (sandbox) => {
+            box(sandbox, 0, 0.5);
+            frames(sandbox, 1);
+            send(sandbox, "alice", "player_tool", "drag");
+            send(sandbox, "bob", "player_tool", "drag");
+            send(sandbox, "alice", "player_down", { x: 0, y: 0.5 });
+            send(sandbox, "bob", "player_down", { x: 0, y: 0.5 });
+            assert(sandbox.physicsPlugin.physicsServer.getSpringInfos().length === 2, 'Both players should be dragging the same box');
+            send(sandbox, "alice", "player_tool", "cubes");
+            assert(sandbox.physicsPlugin.physicsServer.getSpringInfos().length === 1, 'Switching tools should let go of Alice\'s drag, but not Bob\'s');
+            assert(!sandbox.players["alice"].down, 'Alice shouldn\'t be holding down the new tool');
+        }
+    },
+    {
+        name: "registering and unregistering tools",
+        run: (sandbox) => {
+            let released: string[] = [];
+            class MarkerTool extends DragTool {
+                name = "Marker";
+                playerUp(player: PhysicsSandboxPlayer) {
+                    released.push(player.id);
+                    super.playerUp(player);
+                }
+            }
+            let toolLists: { [player: string]: string[] } = {};
+            sandbox.controller.emit = (event: string, data: any, id: string | null) => {
+                if (event === 'tools' && id) toolLists[id] = data.tools.map((tool: { id: string }) => tool.id);
+            };
+
+            send(sandbox, "alice", "player_tool", "drag");
+            send(sandbox, "bob", "player_tool", "drag");
+            let threw = false;
+            try {
+                sandbox.registerTool("marker", MarkerTool);
+            }
+            catch (e) {
+                threw = true;
+            }
+            assert(threw, 'Tools without a namespace should be rejected');
+            sandbox.registerTool("@test/marker", MarkerTool);
+            assert(toolLists["alice"]?.includes("@test/marker") && toolLists["bob"]?.includes("@test/marker"), 'Everyone should get the new tool list');
+
+            send(sandbox, "alice", "player_tool", "@test/marker");
+            send(sandbox, "alice", "player_down", { x: 0, y: 0 });
+            assert(sandbox.unregisterTool("@test/marker"), 'Tool should be unregistered');
+            assert(released.join() === "alice", 'Alice should let go of the tool when it\'s removed');
+            assert(sandbox.players["alice"].tool === "drag" && sandbox.players["bob"].tool === "drag", 'Alice should fall back to the drag tool');
+            assert(!toolLists["bob"].includes("@test/marker"), 'Everyone should get the tool list without the removed tool');
+
+            // names from the prototype of the tool list aren't tools
+            send(sandbox, "bob", "player_tool", "constructor");
+            assert(sandbox.players["bob"].tool === "drag", 'Bob shouldn\'t be able to pick `constructor` as a tool');
+            frames(sandbox, 1);
+        }
+    },
+    {
+        name: "tool options for each player",
+        run: (sandbox) => {
+            send(sandbox, "alice", "player_tool", "rectangle");
+            send(sandbox, "bob", "player_tool", "rectangle");
+            send(sandbox, "alice", "tool_options", { tool: "rectangle", options: { isStatic: true, density: 5, name: "Hacked" } });
+            send(sandbox, "bob", "tool_options", { tool: "rectangle", options: { density: 1000, friction: "a lot", restitution: 0.33 } });
+            let aliceOptions = sandbox.getTools("alice").find((tool) => tool.id === "rectangle")!.options;
+            let bobOptions = sandbox.getTools("bob").find((tool) => tool.id === "rectangle")!.options;
+            assert(aliceOptions.isStatic.value === true && aliceOptions.density.value === 5, 'Alice\'s options should be set');
+            assert(bobOptions.isStatic.value === false && bobOptions.density.value === 1 && bobOptions.friction.value === 0.5 && bobOptions.restitution.value === 0.8, 'Bob\'s invalid options should be ignored, and Alice\'s shouldn\'t affect him');
+
+            send(sandbox, "alice", "player_down", { x: 0, y: 0 });
+            send(sandbox, "bob", "player_down", { x: 10, y: 0 });
+            send(sandbox, "alice", "player_up", { x: 2, y: 2 });
+            send(sandbox, "bob", "player_up", { x: 12, y: 2 });
+            let physicsServer = sandbox.physicsPlugin.physicsServer;
+            let saved = objectsNamed(sandbox, "Rectangle").map((content) => physicsServer.saveObject(content.id)!);
+            assert(saved.filter((object) => object.isStatic && object.density === 5).length === 1, 'Alice should draw a static rectangle with her density');
+            assert(saved.filter((object) => !object.isStatic && object.density === 1).length === 1, 'Bob should draw a normal rectangle');
+        }
+    },
+    {
+        name: "modifiers, secondary input and keys for each player",
+        run: (sandbox) => {
+            send(sandbox, "alice", "player_tool", "rectangle");
+            send(sandbox, "bob", "player_tool", "rectangle");
+            send(sandbox, "alice", "key_down", { key: "Shift", shift: true, ctrl: false, alt: false });
+            send(sandbox, "bob", "key_down", { key: "w", shift: false, ctrl: false, alt: false });
+            assert(sandbox.players["alice"].shift && !sandbox.players["bob"].shift, 'Only Alice should be holding shift');
+            assert(sandbox.players["bob"].keys.includes("w") && !sandbox.players["alice"].keys.includes("w"), 'Only Bob should be holding w');
+
+            // Alice's rectangle snaps to a square, Bob cancels his with right click
+            send(sandbox, "alice", "player_down", { x: 0, y: 0 });
+            send(sandbox, "bob", "player_down", { x: 10, y: 0 });
+            send(sandbox, "bob", "player_secondary_down", { x: 11, y: 1 });
+            send(sandbox, "alice", "player_up", { x: 2, y: 1 });
+            send(sandbox, "bob", "player_up", { x: 12, y: 2 });
+            send(sandbox, "bob", "player_secondary_up", { x: 12, y: 2 });
+            let rectangles = objectsNamed(sandbox, "Rectangle") as Rectangle[];
+            assert(rectangles.length === 1, 'Only Alice should draw a rectangle, got ' + rectangles.length);
+            assert(rectangles[0].width === rectangles[0].height, 'Alice\'s rectangle should be square while holding shift');
+
+            send(sandbox, "alice", "key_up", { key: "Shift", shift: false, ctrl: false, alt: false });
+            send(sandbox, "bob", "key_up", { key: "w", shift: false, ctrl: false, alt: false });
+            assert(!sandbox.players["alice"].shift && sandbox.players["bob"].keys.length === 0, 'Releasing keys should update each player');
+
+            // malformed input is ignored instead of throwing
+            let events = ["player_move", "player_down", "player_up", "player_secondary_down", "player_middle_up", "player_scroll", "key_down", "key_up"];
+            events.forEach((event) => {
+                [null, undefined, 5, "x", { x: "1", y: 2 }, { x: 1, y: 2, shift: "yes" }, { key: 5 }].forEach((data) => send(sandbox, "alice", event, data));
+            });
+            assert(sandbox.players["alice"].x === 2 && sandbox.players["alice"].y === 1, 'Malformed input shouldn\'t move the player');
+            assert(sandbox.players["alice"].keys.length === 0, 'Only valid keys should be pressed and released');
+        }
+    },
+    {
+        name: "replaying a recording",
+        run: async (sandbox) => {
+            sandbox.controller.startRecording();
+            // tools that use random colors and positions, so replays only match if they use the seeded random
+            send(sandbox, "alice", "player_tool", "cubes");
+            send(sandbox, "bob", "player_tool", "particles");
+            send(sandbox, "alice", "player_down", { x: -3, y: 2 });
+            send(sandbox, "bob", "player_down", { x: 3, y: 2 });
+            frames(sandbox, 10);
+            send(sandbox, "alice", "player_up", { x: -3, y: 2 });
+            send(sandbox, "bob", "player_up", { x: 3, y: 2 });
+            send(sandbox, "bob", "player_tool", "rectangle");
+            send(sandbox, "bob", "tool_options", { tool: "rectangle", options: { density: 2 } });
+            send(sandbox, "bob", "player_down", { x: 0, y: 4 });
+            frames(sandbox, 5);
+            send(sandbox, "bob", "player_up", { x: 1, y: 5 });
+            send(sandbox, "bob", "undo", null);
+            send(sandbox, "bob", "redo", null);
+            frames(sandbox, 60);
+            let recording = sandbox.controller.stopRecording()!;
+
+            let replayed = await createSandbox();
+            replayed.controller.replay(JSON.parse(JSON.stringify(recording)));
+            assert(objectsNamed(sandbox, "Rectangle").length === 1, 'Bob should have drawn a rectangle');
+            assert(worldState(replayed) === worldState(sandbox), 'Replaying the recording should give the same world');
+        }
+    },
+    {
+        name: "rewinding with undo history",
+        run: (sandbox) => {
+            let physicsPlugin = sandbox.physicsPlugin;
+            let tick = physicsPlugin.tick;
+            physicsPlugin.snapshots.push(tick, physicsPlugin.physicsServer.takeSnapshot());
+            send(sandbox, "alice", "player_tool", "circle");
+            send(sandbox, "bob", "player_tool", "circle");
+            send(sandbox, "bob", "player_down", { x: 0, y: 2 });
+            send(sandbox, "bob", "player_up", { x: 2, y: 4 });
+            // Alice is still drawing when the world is rewound
+            send(sandbox, "alice", "player_down", { x: 10, y: 2 });
+            send(sandbox, "alice", "rewind_to", tick);
+            assert(objectsNamed(sandbox, "Circle").length === 0, 'Rewinding should remove circles drawn after the snapshot');
+            send(sandbox, "alice", "player_up", { x: 12, y: 4 });
+            assert(objectsNamed(sandbox, "Circle").length === 0, 'Alice\'s circle from before the rewind shouldn\'t be drawn when she lets go');
+
+            // Alice's new circle gets the ID Bob's had, which Bob's undo shouldn't remove
+            send(sandbox, "alice", "player_down", { x: 0, y: 2 });
+            send(sandbox, "alice", "player_up", { x: 2, y: 4 });
+            send(sandbox, "bob", "undo", null);
+            assert(objectsNamed(sandbox, "Circle").length === 1, 'Undoing changes from before a rewind should do nothing');
+        }
+    }
+];
+
+/** Run every multiplayer check, each in a new sandbox */
+async function runMultiplayerChecks(): Promise<SimuloConformanceResult[]> {
+    let results: SimuloConformanceResult[] = [];
+    for (let check of checks) {
+        let sandbox = await createSandbox();
+        try {
+            await check.run(sandbox);
+            results.push({ name: check.name, passed: true });
+        }
+        catch (e) {
+            results.push({ name: check.name, passed: false, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+    return results;
+}
+
+export default runMultiplayerChecks;
+export type { SandboxMultiplayerCheck };
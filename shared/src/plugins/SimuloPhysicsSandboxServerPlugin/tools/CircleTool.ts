@@ -1,9 +1,10 @@
 import type PhysicsSandboxTool from "../PhysicsSandboxTool";
 import type SimuloPhysicsSandboxServerPlugin from "..";
 import type PhysicsSandboxPlayer from "../PhysicsSandboxPlayer";
-import type { Circle } from "../../../SimuloPhysicsServerRapier";
+import type { Circle } from "../../../SimuloPhysicsServer";
 
 import randomColor from "../../../randomColor";
+import materialOptions from "./materialOptions";
 
 export default class CircleTool implements PhysicsSandboxTool {
     name = "Circle";
@@ -16,17 +17,33 @@ export default class CircleTool implements PhysicsSandboxTool {
         this.physicsSandbox = physicsSandbox;
     }
 
+    options = materialOptions;
+    optionValues = {
+        density: 1,
+        friction: 0.5,
+        restitution: 0.8,
+        isStatic: false,
+        useRandomColor: true,
+        chosenColor: 0xffffff,
+    };
+
     startPoint: { x: number, y: number } | null = null;
+    /** Color of the shape being drawn */
     color: number | null = null;
 
     playerDown(player: PhysicsSandboxPlayer) {
         this.startPoint = { x: player.x, y: player.y };
-        this.color = randomColor();
+        this.color = this.optionValues.useRandomColor ? randomColor(this.physicsSandbox.controller.random.next) : this.optionValues.chosenColor;
     }
     playerMove(player: PhysicsSandboxPlayer) { }
+    /** Right click cancels the circle being drawn */
+    playerSecondaryDown(player: PhysicsSandboxPlayer) {
+        this.startPoint = null;
+        this.color = null;
+    }
     playerUp(player: PhysicsSandboxPlayer) {
         if (!this.startPoint) return;
-        this.physicsSandbox.physicsPlugin.physicsServer.addCircle({
+        let id = this.physicsSandbox.physicsPlugin.physicsServer.addCircle({
             radius: Math.max(Math.abs(this.startPoint.x - player.x) / 2, Math.abs(this.startPoint.y - player.y) / 2),
             color: this.color ?? 0xffffff,
             alpha: 1,
@@ -35,14 +52,14 @@ export default class CircleTool implements PhysicsSandboxTool {
             borderScaleWithZoom: true,
             borderWidth: 0.1,
             image: null,
-            sound: null,
-            zDepth: 0,
-            isStatic: false,
-            density: 1,
-            friction: 0.5,
-            restitution: 0.8,
+            sound: "impact.wav",
+            isStatic: this.optionValues.isStatic,
+            density: this.optionValues.density,
+            friction: this.optionValues.friction,
+            restitution: this.optionValues.restitution,
             position: { x: (this.startPoint.x + player.x) / 2, y: (this.startPoint.y + player.y) / 2 },
         });
+        this.physicsSandbox.recordCreate(player.id, id);
         this.startPoint = null;
     }
 
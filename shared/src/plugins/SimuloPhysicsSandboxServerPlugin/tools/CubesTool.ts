@@ -1,4 +1,5 @@
 import type PhysicsSandboxTool from "../PhysicsSandboxTool";
+import type { PhysicsSandboxToolOption } from "../PhysicsSandboxTool";
 import type SimuloPhysicsSandboxServerPlugin from "..";
 import type PhysicsSandboxPlayer from "../PhysicsSandboxPlayer";
 
@@ -15,40 +16,50 @@ export default class CubesTool implements PhysicsSandboxTool {
         this.physicsSandbox = physicsSandbox;
     }
 
-    spawnCube(x: number, y: number) {
-        this.physicsSandbox.physicsPlugin.physicsServer.addRectangle({
-            width: 0.5,
-            height: 0.5,
-            color: randomColor(),
+    options: { [field: string]: PhysicsSandboxToolOption } = {
+        cubeSize: { type: "number", name: "Size", min: 0.1, max: 5, step: 0.1 },
+        framesPerCube: { type: "number", name: "Frames per cube", min: 1, max: 60, step: 1 },
+    };
+    optionValues = {
+        /** Half of the width of cubes */
+        cubeSize: 0.5,
+        /** The sandbox runs at 60fps */
+        framesPerCube: 1,
+    };
+
+    spawnCube(player: PhysicsSandboxPlayer) {
+        let id = this.physicsSandbox.physicsPlugin.physicsServer.addRectangle({
+            width: this.optionValues.cubeSize,
+            height: this.optionValues.cubeSize,
+            color: randomColor(this.physicsSandbox.controller.random.next),
             alpha: 1,
             name: "Cube",
             border: null,
             borderScaleWithZoom: true,
             borderWidth: 0.1,
             image: null,
-            sound: null,
-            zDepth: 0,
+            sound: "impact.wav",
             isStatic: false,
             density: 1,
             friction: 0.5,
             restitution: 0.8,
-            position: { x, y },
+            position: { x: player.x, y: player.y },
         });
+        this.physicsSandbox.recordCreate(player.id, id);
     }
 
     playerDown(player: PhysicsSandboxPlayer) {
-        this.spawnCube(player.x, player.y);
+        this.spawnCube(player);
     }
     playerMove(player: PhysicsSandboxPlayer) { }
     playerUp(player: PhysicsSandboxPlayer) { }
 
     frameCount = 0;
-    framesPerCube = 1; // this is 60fps
     update(player: PhysicsSandboxPlayer) {
         if (player.down) {
             this.frameCount++;
-            if (this.frameCount % this.framesPerCube === 0) {
-                this.spawnCube(player.x, player.y);
+            if (this.frameCount % this.optionValues.framesPerCube === 0) {
+                this.spawnCube(player);
             }
         }
         else {
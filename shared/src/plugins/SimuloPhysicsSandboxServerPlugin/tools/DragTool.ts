@@ -1,7 +1,8 @@
 import type PhysicsSandboxTool from "../PhysicsSandboxTool";
+import type { PhysicsSandboxToolOption } from "../PhysicsSandboxTool";
 import type SimuloPhysicsSandboxServerPlugin from "..";
 import type PhysicsSandboxPlayer from "../PhysicsSandboxPlayer";
-import { SimuloSpring } from "../../../SimuloPhysicsServerRapier";
+import type { SimuloSpring, SimuloObjectProperties } from "../../../SimuloPhysicsServer";
 
 export default class DragTool implements PhysicsSandboxTool {
     name = "Drag";
@@ -10,47 +11,47 @@ export default class DragTool implements PhysicsSandboxTool {
 
     physicsSandbox: SimuloPhysicsSandboxServerPlugin;
 
+    options: { [field: string]: PhysicsSandboxToolOption } = {
+        stiffness: { type: "number", name: "Stiffness", min: 1, max: 100, step: 1 },
+        damping: { type: "number", name: "Damping", min: 0, max: 10, step: 0.1 },
+    };
+    optionValues = {
+        stiffness: 10,
+        damping: 1,
+    };
+
     spring: SimuloSpring | null = null;
+    /** Object being dragged and where it was before, so the move can be undone */
+    target: string | null = null;
+    before: Partial<SimuloObjectProperties> | null = null;
 
     constructor(physicsSandbox: SimuloPhysicsSandboxServerPlugin) {
         this.physicsSandbox = physicsSandbox;
     }
 
     playerDown(player: PhysicsSandboxPlayer) {
-        let target = this.physicsSandbox.physicsPlugin.physicsServer.getObjectAtPoint(player.x, player.y);
+        let physicsServer = this.physicsSandbox.physicsPlugin.physicsServer;
+        let target = physicsServer.getTopmostObjectAtPoint(player.x, player.y);
         if (target) {
-            let bodyANullable = target.parent();
-            if (bodyANullable !== null) {
-                let bodyA = bodyANullable;
+            let localAnchorA = physicsServer.getObjectLocalPoint(target, { x: player.x, y: player.y });
+            if (localAnchorA) {
                 if (this.spring) {
                     this.spring.destroy();
                     this.spring = null;
                 }
-                this.spring = this.physicsSandbox.physicsPlugin.physicsServer.addSpring({
-                    // positions
-                    getBodyAPosition: () => { return bodyA.translation() },
-                    getBodyBPosition: () => { return { x: player.x, y: player.y } },
-
-                    // rotations
-                    getBodyARotation: () => { return bodyA.rotation() },
-                    getBodyBRotation: () => { return 0; },
-
-                    // velocities
-                    getBodyAVelocity: () => { return bodyA.linvel() },
-                    getBodyBVelocity: () => { return { x: 0, y: 0 }; },
-
-                    // impulses
-                    applyBodyAImpulse: (impulse, worldPoint) => {
-                        bodyA.applyImpulseAtPoint(impulse, worldPoint, true);
-                    },
-                    applyBodyBImpulse: (impulse, worldPoint) => { },
-
-                    stiffness: 10,
-                    localAnchorA: this.physicsSandbox.physicsPlugin.physicsServer.getLocalPoint(bodyA.translation(), bodyA.rotation(), { x: player.x, y: player.y }),
-                    localAnchorB: { x: 0, y: 0 },
+                // world-fixed end at the cursor, moved in playerMove
+                this.spring = physicsServer.addObjectSpring({
+                    bodyA: target,
+                    bodyB: null,
+                    localAnchorA,
+                    localAnchorB: { x: player.x, y: player.y },
+                    stiffness: this.optionValues.stiffness,
+                    damping: this.optionValues.damping,
                     targetLength: 0,
-                    damping: 1
+                    temporary: true
                 });
+                this.target = target;
+                this.before = this.physicsSandbox.getObjectProperties(target, ["position", "angle", "linearVelocity", "angularVelocity"]);
             }
         }
     }
@@ -58,15 +59,18 @@ export default class DragTool implements PhysicsSandboxTool {
         if (!player.down) return;
         if (!this.spring) return;
 
-        this.spring.getBodyBPosition = () => {
-            return { x: player.x, y: player.y };
-        };
+        this.spring.localAnchorB = { x: player.x, y: player.y };
     }
     playerUp(player: PhysicsSandboxPlayer) {
         if (!this.spring) return;
 
         this.spring.destroy();
         this.spring = null;
+        if (this.target && this.before) {
+            this.physicsSandbox.recordPropertyChange(player.id, this.target, this.before);
+        }
+        this.target = null;
+        this.before = null;
     }
     update(player: PhysicsSandboxPlayer) { }
-}
\ No newline at end of file
+}
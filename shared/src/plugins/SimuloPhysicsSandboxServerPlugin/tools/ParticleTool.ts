@@ -0,0 +1,80 @@
+import type PhysicsSandboxTool from "../PhysicsSandboxTool";
+import type { PhysicsSandboxToolOption } from "../PhysicsSandboxTool";
+import type SimuloPhysicsSandboxServerPlugin from "..";
+import type PhysicsSandboxPlayer from "../PhysicsSandboxPlayer";
+import type { Circle, SimuloParticleDesc } from "../../../SimuloPhysicsServer";
+
+import randomColor from "../../../randomColor";
+
+export default class ParticleTool implements PhysicsSandboxTool {
+    name = "Particles";
+    description = "Spray particles, like sand or water";
+    icon = "icons/grain.svg";
+
+    physicsSandbox: SimuloPhysicsSandboxServerPlugin;
+
+    constructor(physicsSandbox: SimuloPhysicsSandboxServerPlugin) {
+        this.physicsSandbox = physicsSandbox;
+    }
+
+    options: { [field: string]: PhysicsSandboxToolOption } = {
+        brushRadius: { type: "number", name: "Brush size", min: 0.1, max: 10, step: 0.1 },
+        particleRadius: { type: "number", name: "Particle size", min: 0.05, max: 0.5, step: 0.05 },
+        particlesPerFrame: { type: "number", name: "Flow", min: 1, max: 20, step: 1 },
+    };
+    optionValues = {
+        /** Particles are spawned randomly in a circle of this radius around the player */
+        brushRadius: 1,
+        particleRadius: 0.1,
+        particlesPerFrame: 4,
+    };
+    color: number | null = null;
+
+    playerDown(player: PhysicsSandboxPlayer) {
+        this.color = randomColor(this.physicsSandbox.controller.random.next);
+    }
+    playerMove(player: PhysicsSandboxPlayer) { }
+    playerUp(player: PhysicsSandboxPlayer) {
+        this.color = null;
+    }
+
+    update(player: PhysicsSandboxPlayer) {
+        let physicsServer = this.physicsSandbox.physicsPlugin.physicsServer;
+        if (player.down) {
+            let count = Math.min(this.optionValues.particlesPerFrame, this.physicsSandbox.maxParticles - physicsServer.getParticleCount());
+            let particles: SimuloParticleDesc[] = [];
+            let random = this.physicsSandbox.controller.random;
+            for (let i = 0; i < count; i++) {
+                // sqrt so particles are spread evenly instead of bunching up in the middle
+                let distance = Math.sqrt(random.next()) * this.optionValues.brushRadius;
+                let angle = random.next() * Math.PI * 2;
+                particles.push({
+                    position: { x: player.x + Math.cos(angle) * distance, y: player.y + Math.sin(angle) * distance },
+                    radius: this.optionValues.particleRadius,
+                    color: this.color ?? 0xffffff,
+                });
+            }
+            physicsServer.addParticles(particles);
+        }
+
+        // brush outline
+        this.physicsSandbox.addOverlayShape({
+            content: {
+                radius: this.optionValues.brushRadius,
+                color: this.color ?? 0xffffff,
+                alpha: 0.1,
+                zDepth: 0,
+                type: "circle",
+                border: 0xffffff,
+                id: "particleToolOverlay",
+                borderWidth: 0.05,
+                circleCake: false,
+            } as Circle,
+            transform: {
+                x: player.x,
+                y: player.y,
+                angle: 0,
+            }
+        });
+    }
+}
@@ -1,9 +1,10 @@
 import type PhysicsSandboxTool from "../PhysicsSandboxTool";
 import type SimuloPhysicsSandboxServerPlugin from "..";
 import type PhysicsSandboxPlayer from "../PhysicsSandboxPlayer";
-import type { Rectangle } from "../../../SimuloPhysicsServerRapier";
+import type { Rectangle } from "../../../SimuloPhysicsServer";
 
 import randomColor from "../../../randomColor";
+import materialOptions from "./materialOptions";
 
 export default class RectangleTool implements PhysicsSandboxTool {
     name = "Rectangle";
@@ -28,7 +29,6 @@ export default class RectangleTool implements PhysicsSandboxTool {
             borderWidth: 0.1,
             image: null,
             sound: null,
-            zDepth: 0,
             isStatic: false,
             density: 1,
             friction: 0.5,
@@ -37,19 +37,45 @@ export default class RectangleTool implements PhysicsSandboxTool {
         });
     }*/
 
+    options = materialOptions;
+    optionValues = {
+        density: 1,
+        friction: 0.5,
+        restitution: 0.8,
+        isStatic: false,
+        useRandomColor: true,
+        chosenColor: 0xffffff,
+    };
+
     startPoint: { x: number, y: number } | null = null;
+    /** Color of the shape being drawn */
     color: number | null = null;
 
     playerDown(player: PhysicsSandboxPlayer) {
         this.startPoint = { x: player.x, y: player.y };
-        this.color = randomColor();
+        this.color = this.optionValues.useRandomColor ? randomColor(this.physicsSandbox.controller.random.next) : this.optionValues.chosenColor;
     }
     playerMove(player: PhysicsSandboxPlayer) { }
+    /** Right click cancels the rectangle being drawn */
+    playerSecondaryDown(player: PhysicsSandboxPlayer) {
+        this.startPoint = null;
+        this.color = null;
+    }
+    /** Opposite corner to the start point. Holding shift snaps it so the rectangle is a square. */
+    getEndPoint(player: PhysicsSandboxPlayer): { x: number, y: number } {
+        if (!this.startPoint || !player.shift) return { x: player.x, y: player.y };
+        let size = Math.max(Math.abs(player.x - this.startPoint.x), Math.abs(player.y - this.startPoint.y));
+        return {
+            x: this.startPoint.x + (player.x < this.startPoint.x ? -size : size),
+            y: this.startPoint.y + (player.y < this.startPoint.y ? -size : size),
+        };
+    }
     playerUp(player: PhysicsSandboxPlayer) {
         if (!this.startPoint) return;
-        this.physicsSandbox.physicsPlugin.physicsServer.addRectangle({
-            width: Math.abs(this.startPoint.x - player.x) / 2,
-            height: Math.abs(this.startPoint.y - player.y) / 2,
+        let end = this.getEndPoint(player);
+        let id = this.physicsSandbox.physicsPlugin.physicsServer.addRectangle({
+            width: Math.abs(this.startPoint.x - end.x) / 2,
+            height: Math.abs(this.startPoint.y - end.y) / 2,
             color: this.color ?? 0xffffff,
             alpha: 1,
             name: "Rectangle",
@@ -57,24 +83,25 @@ export default class RectangleTool implements PhysicsSandboxTool {
             borderScaleWithZoom: true,
             borderWidth: 0.1,
             image: null,
-            sound: null,
-            zDepth: 0,
-            isStatic: false,
-            density: 1,
-            friction: 0.5,
-            restitution: 0.8,
-            position: { x: (this.startPoint.x + player.x) / 2, y: (this.startPoint.y + player.y) / 2 },
+            sound: "impact.wav",
+            isStatic: this.optionValues.isStatic,
+            density: this.optionValues.density,
+            friction: this.optionValues.friction,
+            restitution: this.optionValues.restitution,
+            position: { x: (this.startPoint.x + end.x) / 2, y: (this.startPoint.y + end.y) / 2 },
         });
+        this.physicsSandbox.recordCreate(player.id, id);
         this.startPoint = null;
     }
 
     update(player: PhysicsSandboxPlayer) {
         if (this.startPoint) {
+            let end = this.getEndPoint(player);
             // add overlays
             this.physicsSandbox.addOverlayShape({
                 content: {
-                    width: Math.abs(this.startPoint.x - player.x),
-                    height: Math.abs(this.startPoint.y - player.y),
+                    width: Math.abs(this.startPoint.x - end.x),
+                    height: Math.abs(this.startPoint.y - end.y),
                     color: this.color ?? 0xffffff,
                     alpha: 0.5,
                     zDepth: 0,
@@ -84,8 +111,8 @@ export default class RectangleTool implements PhysicsSandboxTool {
                     borderWidth: 0.1,
                 } as Rectangle,
                 transform: {
-                    x: (this.startPoint.x + player.x) / 2,
-                    y: (this.startPoint.y + player.y) / 2,
+                    x: (this.startPoint.x + end.x) / 2,
+                    y: (this.startPoint.y + end.y) / 2,
                     angle: 0,
                 }
             });
@@ -0,0 +1,47 @@
+import type PhysicsSandboxTool from "../PhysicsSandboxTool";
+import type { PhysicsSandboxToolOption } from "../PhysicsSandboxTool";
+import type SimuloPhysicsSandboxServerPlugin from "..";
+import type PhysicsSandboxPlayer from "../PhysicsSandboxPlayer";
+
+export default class ThrusterTool implements PhysicsSandboxTool {
+    name = "Thruster";
+    description = "Attach thrusters that push objects upwards. Their key toggles them, Space by default.";
+    icon = "icons/rocket.svg";
+
+    physicsSandbox: SimuloPhysicsSandboxServerPlugin;
+
+    constructor(physicsSandbox: SimuloPhysicsSandboxServerPlugin) {
+        this.physicsSandbox = physicsSandbox;
+    }
+
+    options: { [field: string]: PhysicsSandboxToolOption } = {
+        strength: { type: "number", name: "Strength", min: 1, max: 1000, step: 1 },
+        key: { type: "enum", name: "Key", values: [" ", "w", "a", "s", "d", "q", "e"], labels: ["Space", "W", "A", "S", "D", "Q", "E"] },
+    };
+    optionValues = {
+        /** Force of new thrusters in newtons, enough to lift a few cubes */
+        strength: 20,
+        key: " ",
+    };
+
+    playerDown(player: PhysicsSandboxPlayer) {
+        let physicsServer = this.physicsSandbox.physicsPlugin.physicsServer;
+        let target = physicsServer.getTopmostObjectAtPoint(player.x, player.y);
+        if (!target) return;
+        let localAnchor = physicsServer.getObjectLocalPoint(target, { x: player.x, y: player.y });
+        // world up in the object's local space, so the thruster points up no matter how the object is rotated
+        let above = physicsServer.getObjectLocalPoint(target, { x: player.x, y: player.y + 1 });
+        if (!localAnchor || !above) return;
+        this.physicsSandbox.addThruster(player.id, {
+            body: target,
+            localAnchor,
+            direction: { x: above.x - localAnchor.x, y: above.y - localAnchor.y },
+            strength: this.optionValues.strength,
+            enabled: true,
+            key: this.optionValues.key
+        });
+    }
+    playerMove(player: PhysicsSandboxPlayer) { }
+    playerUp(player: PhysicsSandboxPlayer) { }
+    update(player: PhysicsSandboxPlayer) { }
+}
@@ -0,0 +1,13 @@
+import type { PhysicsSandboxToolOption } from "../PhysicsSandboxTool";
+
+/** Options of tools that draw objects, for the material and color fields they all have */
+const materialOptions: { [field: string]: PhysicsSandboxToolOption } = {
+    density: { type: "number", name: "Density", min: 0.1, max: 10, step: 0.1 },
+    friction: { type: "number", name: "Friction", min: 0, max: 2, step: 0.05 },
+    restitution: { type: "number", name: "Bounciness", min: 0, max: 1.5, step: 0.05 },
+    isStatic: { type: "boolean", name: "Static" },
+    useRandomColor: { type: "boolean", name: "Random color" },
+    chosenColor: { type: "color", name: "Color" },
+};
+
+export default materialOptions;
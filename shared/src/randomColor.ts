@@ -1,11 +1,11 @@
 import hsvToHex from "./hsvToHex";
 
-/** Random hex number like `0xffffff` */
-function randomColor(hueMin: number = 0, hueMax: number = 1, saturationMin: number = 0.5, saturationMax: number = 0.8, valueMin: number = 0.8, valueMax: number = 1): number {
-    let hue = hueMin + Math.random() * (hueMax - hueMin);
-    let saturation = saturationMin + Math.random() * (saturationMax - saturationMin);
-    let value = valueMin + Math.random() * (valueMax - valueMin);
+/** Random hex number like `0xffffff`. Pass `random` from a seeded `SimuloRandom` when the color ends up in the world, so it's the same when replayed. */
+function randomColor(random: () => number = Math.random, hueMin: number = 0, hueMax: number = 1, saturationMin: number = 0.5, saturationMax: number = 0.8, valueMin: number = 0.8, valueMax: number = 1): number {
+    let hue = hueMin + random() * (hueMax - hueMin);
+    let saturation = saturationMin + random() * (saturationMax - saturationMin);
+    let value = valueMin + random() * (valueMax - valueMin);
     return hsvToHex(hue, saturation, value);
 }
 
-export default randomColor;
\ No newline at end of file
+export default randomColor;